@@ -0,0 +1,52 @@
+// Receives batches from the POS cloud sync and keeps one row per document.
+// Paste into Extensions > Apps Script of the target sheet, then deploy as a
+// web app that executes as you and that anyone can access.
+
+const SHEETS = { bills: 'Bills', creditNotes: 'Credit Notes' };
+
+function doPost(e) {
+  const lock = LockService.getScriptLock();
+  lock.waitLock(30000);
+  try {
+    const batch = JSON.parse(e.postData.contents);
+    const ids = [];
+    Object.keys(SHEETS).forEach(function (key) {
+      (batch[key] || []).forEach(function (row) {
+        upsertRow(SHEETS[key], row);
+        ids.push(row.id);
+      });
+    });
+    return reply({ ok: true, ids: ids });
+  } catch (error) {
+    return reply({ ok: false, error: String(error) });
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+function upsertRow(name, row) {
+  const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+  const sheet = spreadsheet.getSheetByName(name) || spreadsheet.insertSheet(name);
+  const fields = Object.keys(row);
+  if (sheet.getLastRow() === 0) sheet.appendRow(fields);
+
+  const headers = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+  fields.forEach(function (field) {
+    if (headers.indexOf(field) === -1) {
+      headers.push(field);
+      sheet.getRange(1, headers.length).setValue(field);
+    }
+  });
+
+  const values = headers.map(function (header) { return row[header] === undefined ? '' : row[header]; });
+  const match = sheet.getRange('A:A').createTextFinder(row.id).matchEntireCell(true).findNext();
+  if (match && match.getRow() > 1) {
+    sheet.getRange(match.getRow(), 1, 1, values.length).setValues([values]);
+  } else {
+    sheet.appendRow(values);
+  }
+}
+
+function reply(body) {
+  return ContentService.createTextOutput(JSON.stringify(body)).setMimeType(ContentService.MimeType.JSON);
+}
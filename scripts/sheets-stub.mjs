@@ -0,0 +1,54 @@
+// Local stand-in for the Apps Script web app, for trying out cloud sync.
+// Set the Web App URL in Settings to http://localhost:8787/ and run:
+//   npm run sync:stub
+// FAIL_RATE=0.5 makes half the requests fail, to watch the retries.
+// GET / lists the rows received so far.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT || 8787);
+const failRate = Number(process.env.FAIL_RATE || 0);
+const rows = { bills: new Map(), creditNotes: new Map() };
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(JSON.stringify(body));
+}
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  if (req.method === 'GET') {
+    return send(res, 200, {
+      bills: [...rows.bills.values()],
+      creditNotes: [...rows.creditNotes.values()],
+    });
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    if (Math.random() < failRate) {
+      console.log('Simulated failure');
+      return send(res, 503, { ok: false, error: 'Simulated failure' });
+    }
+    try {
+      const batch = JSON.parse(body);
+      const ids = [];
+      for (const key of Object.keys(rows)) {
+        for (const row of batch[key] || []) {
+          rows[key].set(row.id, row);
+          ids.push(row.id);
+        }
+      }
+      console.log(`${new Date().toLocaleTimeString()} received ${ids.length} from ${batch.shop}`);
+      send(res, 200, { ok: true, ids });
+    } catch (error) {
+      send(res, 400, { ok: false, error: String(error) });
+    }
+  });
+}).listen(port, () => {
+  console.log(`Sheets sync stub listening on http://localhost:${port}/`);
+});
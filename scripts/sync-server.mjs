@@ -0,0 +1,132 @@
+// Reference sync server for running several terminals against one shop.
+// Keeps the latest version of every bill, credit note, menu item, modifier
+// group, user and settings record in a JSON file and hands out changes in the order it accepted them.
+//   SYNC_TOKEN=secret npm run sync:server
+// Then set the Sync Server URL (http://<this machine>:8788) and the same token
+// in Settings on every terminal. PORT and DATA_DIR change where it listens and
+// stores its data.
+import { createServer } from 'node:http';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const port = Number(process.env.PORT || 8788);
+const token = process.env.SYNC_TOKEN || '';
+const dataDir = process.env.DATA_DIR || 'sync-data';
+const dataFile = join(dataDir, 'records.json');
+const STORES = ['bills', 'creditNotes', 'menuItems', 'modifierGroups', 'users', 'settings'];
+const MAX_BODY = 20 * 1024 * 1024;
+
+mkdirSync(dataDir, { recursive: true });
+
+// { seq, records: { 'store:id': { seq, store, id, rev, record } } }
+let data = { seq: 0, records: {} };
+try {
+  data = JSON.parse(readFileSync(dataFile, 'utf8'));
+} catch (error) {
+  if (error.code !== 'ENOENT') throw error;
+}
+
+// Written to a temporary file first so a crash never leaves half a file
+function save() {
+  const tmp = `${dataFile}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data));
+  renameSync(tmp, dataFile);
+}
+
+// Same rule as src/lib/revisions.ts; positive when a is newer
+function compareRev(a, b) {
+  if (!a || !b) return (a ? 1 : 0) - (b ? 1 : 0);
+  if (a.version !== b.version) return a.version - b.version;
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt < b.updatedAt ? -1 : 1;
+  if (a.terminalId !== b.terminalId) return a.terminalId < b.terminalId ? -1 : 1;
+  return 0;
+}
+
+function isValidChange(change) {
+  return change
+    && STORES.includes(change.store)
+    && typeof change.id === 'string'
+    && change.rev
+    && Number.isInteger(change.rev.version)
+    && typeof change.rev.updatedAt === 'string'
+    && typeof change.rev.terminalId === 'string';
+}
+
+// Keeps each pushed version only if it is newer than the stored one
+function push(body) {
+  const results = [];
+  for (const change of body.changes || []) {
+    if (!isValidChange(change)) {
+      results.push({ store: change?.store, id: change?.id, accepted: false, error: 'Invalid change' });
+      continue;
+    }
+    const key = `${change.store}:${change.id}`;
+    const current = data.records[key];
+    if (current && compareRev(change.rev, current.rev) <= 0) {
+      results.push({ store: change.store, id: change.id, accepted: false });
+      continue;
+    }
+    data.seq += 1;
+    data.records[key] = { seq: data.seq, store: change.store, id: change.id, rev: change.rev, record: change.record ?? null };
+    results.push({ store: change.store, id: change.id, accepted: true });
+  }
+  if (results.some(result => result.accepted)) save();
+  const accepted = results.filter(result => result.accepted).length;
+  console.log(`${new Date().toLocaleTimeString()} ${body.terminalId || 'unknown'} pushed ${results.length}, ${accepted} accepted`);
+  return { ok: true, results };
+}
+
+function changesSince(since, limit) {
+  const changes = Object.values(data.records)
+    .filter(entry => entry.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  const page = changes.slice(0, limit);
+  return {
+    ok: true,
+    changes: page,
+    cursor: page.length > 0 ? page[page.length - 1].seq : Math.max(since, 0),
+    more: changes.length > page.length,
+  };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+}
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    return send(res, 401, { ok: false, error: 'Invalid sync token' });
+  }
+
+  const url = new URL(req.url, 'http://localhost');
+  if (req.method === 'GET' && url.pathname === '/changes') {
+    const since = Number(url.searchParams.get('since') || 0);
+    const limit = Math.min(Math.max(Number(url.searchParams.get('limit') || 500), 1), 1000);
+    return send(res, 200, changesSince(since, limit));
+  }
+  if (req.method !== 'POST' || url.pathname !== '/push') {
+    return send(res, 404, { ok: false, error: 'Not found' });
+  }
+
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY) req.destroy();
+  });
+  req.on('end', () => {
+    try {
+      send(res, 200, push(JSON.parse(body)));
+    } catch (error) {
+      send(res, 400, { ok: false, error: String(error) });
+    }
+  });
+}).listen(port, () => {
+  console.log(`Sync server listening on http://localhost:${port}/ (data in ${dataFile})`);
+});
@@ -5,7 +5,9 @@ import {
   BarChart3, 
   Settings, 
   LogOut,
-  ChefHat
+  Armchair,
+  ChefHat,
+  FileText
 } from 'lucide-react';
 import { NavLink } from '@/components/NavLink';
 import { useLocation, useNavigate } from 'react-router-dom';
@@ -21,15 +23,18 @@ import {
   SidebarFooter,
   useSidebar,
 } from '@/components/ui/sidebar';
-import { logout, getCurrentUser } from '@/lib/auth';
+import { logout, getCurrentUser, hasRole } from '@/lib/auth';
+import { UserRole } from '@/types';
 import { Button } from '@/components/ui/button';
 import logo from '@/assets/logo.png';
 
-const menuItems = [
+const menuItems: { title: string; url: string; icon: typeof Receipt; adminOnly?: boolean; roles?: UserRole[] }[] = [
   { title: 'Dashboard', url: '/dashboard', icon: LayoutDashboard },
   { title: 'Billing', url: '/billing', icon: Receipt },
+  { title: 'Tables', url: '/tables', icon: Armchair },
   { title: 'Menu', url: '/menu', icon: UtensilsCrossed, adminOnly: true },
   { title: 'Reports', url: '/reports', icon: BarChart3 },
+  { title: 'Bills', url: '/bills', icon: FileText, roles: ['admin', 'manager'] },
   { title: 'Settings', url: '/settings', icon: Settings, adminOnly: true },
 ];
 
@@ -50,6 +55,9 @@ export function AppSidebar() {
     if (item.adminOnly && user?.role !== 'admin') {
       return false;
     }
+    if (item.roles && !hasRole(item.roles)) {
+      return false;
+    }
     return true;
   });
 
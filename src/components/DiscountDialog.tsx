@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Discount, DiscountType } from '@/types';
+
+interface DiscountDialogProps {
+  open: boolean;
+  title: string;
+  // Amount the discount applies to, used to cap flat discounts
+  base: number;
+  currency: string;
+  reasons: string[];
+  discount?: Discount;
+  onClose: () => void;
+  onApply: (discount: Discount | undefined) => void;
+}
+
+export function DiscountDialog({ open, title, base, currency, reasons, discount, onClose, onApply }: DiscountDialogProps) {
+  const [type, setType] = useState<DiscountType>('percent');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setType(discount?.type || 'percent');
+    setValue(discount ? discount.value.toString() : '');
+    setReason(discount?.reason || '');
+    setError(null);
+  }, [open, discount]);
+
+  const handleApply = () => {
+    const amount = parseFloat(value);
+    if (isNaN(amount) || amount <= 0) {
+      setError('Enter a discount greater than zero');
+      return;
+    }
+    if (type === 'percent' && amount > 100) {
+      setError('A percentage discount cannot exceed 100%');
+      return;
+    }
+    if (type === 'flat' && amount > base) {
+      setError(`A flat discount cannot exceed ${currency}${base.toFixed(2)}`);
+      return;
+    }
+    if (!reason) {
+      setError('Select a reason for the discount');
+      return;
+    }
+    onApply({ type, value: amount, reason, amount: 0 });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Applied on {currency}{base.toFixed(2)} before tax
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant={type === 'percent' ? 'default' : 'outline'}
+              onClick={() => setType('percent')}
+            >
+              Percentage (%)
+            </Button>
+            <Button
+              variant={type === 'flat' ? 'default' : 'outline'}
+              onClick={() => setType('flat')}
+            >
+              Flat ({currency})
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="discount-value">Discount</Label>
+            <Input
+              id="discount-value"
+              type="number"
+              step="0.01"
+              min="0"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={type === 'percent' ? 'e.g., 10' : 'e.g., 50'}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="discount-reason">Reason *</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger id="discount-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          {discount && (
+            <Button variant="outline" className="mr-auto text-destructive" onClick={() => onApply(undefined)}>
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AppSettings, Bill, EInvoiceBuyer } from '@/types';
+import { buildEInvoice, validateEInvoice } from '@/lib/einvoice';
+import { exportEInvoiceJson } from '@/lib/export';
+
+interface EInvoiceDialogProps {
+  open: boolean;
+  bill: Bill | null;
+  settings: AppSettings | null;
+  onClose: () => void;
+  onGenerate: (buyer: EInvoiceBuyer) => Promise<void>;
+}
+
+export function EInvoiceDialog({ open, bill, settings, onClose, onGenerate }: EInvoiceDialogProps) {
+  const [buyer, setBuyer] = useState<EInvoiceBuyer>({ legalName: '', address: '', location: '', pincode: '' });
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!open || !bill) return;
+    setBuyer({ legalName: bill.customerName || '', address: '', location: '', pincode: '' });
+    setGenerating(false);
+  }, [open, bill]);
+
+  if (!bill || !settings) return null;
+
+  const payload = buildEInvoice(bill, settings, buyer);
+  const errors = validateEInvoice(payload);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      await onGenerate(buyer);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>E-Invoice {bill.billNumber}</DialogTitle>
+          <DialogDescription>
+            Buyer GSTIN {bill.customerGstin}. Enter the buyer's registered address to register the bill with the IRP.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="einvoice-buyer-name">Legal Name *</Label>
+            <Input
+              id="einvoice-buyer-name"
+              value={buyer.legalName}
+              onChange={(e) => setBuyer({ ...buyer, legalName: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="einvoice-buyer-address">Address *</Label>
+            <Textarea
+              id="einvoice-buyer-address"
+              value={buyer.address}
+              onChange={(e) => setBuyer({ ...buyer, address: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="einvoice-buyer-location">City / Location *</Label>
+              <Input
+                id="einvoice-buyer-location"
+                value={buyer.location}
+                onChange={(e) => setBuyer({ ...buyer, location: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="einvoice-buyer-pincode">PIN Code *</Label>
+              <Input
+                id="einvoice-buyer-pincode"
+                value={buyer.pincode}
+                onChange={(e) => setBuyer({ ...buyer, pincode: e.target.value })}
+                maxLength={6}
+              />
+            </div>
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive list-disc pl-5 max-h-32 overflow-y-auto">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            disabled={errors.length > 0}
+            onClick={() => exportEInvoiceJson(payload, `einvoice-${bill.billNumber.replace(/\//g, '-')}.json`)}
+          >
+            Download JSON
+          </Button>
+          <Button disabled={errors.length > 0 || generating} onClick={handleGenerate}>
+            {generating ? 'Generating...' : 'Generate IRN'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { MenuItem, MenuItemVariant, ModifierGroup, BillItemModifier } from '@/types';
+import { getModifiersTotal, validateModifierSelection } from '@/lib/billing';
+
+interface ItemOptionsDialogProps {
+  item: MenuItem | null;
+  modifierGroups: ModifierGroup[];
+  currency: string;
+  onClose: () => void;
+  onAdd: (item: MenuItem, variant: MenuItemVariant | undefined, modifiers: BillItemModifier[], notes: string) => void;
+}
+
+export function ItemOptionsDialog({ item, modifierGroups, currency, onClose, onAdd }: ItemOptionsDialogProps) {
+  const [variant, setVariant] = useState<MenuItemVariant | undefined>(undefined);
+  const [modifiers, setModifiers] = useState<BillItemModifier[]>([]);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setVariant(item?.variants?.[0]);
+    setModifiers([]);
+    setNotes('');
+    setError(null);
+  }, [item]);
+
+  if (!item) return null;
+
+  const toggleOption = (group: ModifierGroup, option: ModifierGroup['options'][number]) => {
+    const isSelected = modifiers.some(modifier => modifier.optionId === option.id);
+    if (isSelected) {
+      setModifiers(modifiers.filter(modifier => modifier.optionId !== option.id));
+      return;
+    }
+
+    const selection: BillItemModifier = {
+      groupId: group.id,
+      groupName: group.name,
+      optionId: option.id,
+      name: option.name,
+      price: option.price,
+    };
+    // Single-choice groups swap the previous option out
+    const others = group.maxSelect === 1
+      ? modifiers.filter(modifier => modifier.groupId !== group.id)
+      : modifiers;
+    setModifiers([...others, selection]);
+  };
+
+  const handleAdd = () => {
+    const validationError = validateModifierSelection(modifierGroups, modifiers);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onAdd(item, variant, modifiers, notes.trim());
+  };
+
+  const unitPrice = (variant ? variant.price : item.price) + getModifiersTotal(modifiers);
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{item.name}</DialogTitle>
+          <DialogDescription>Choose options for this item</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {item.variants?.length ? (
+            <div className="space-y-2">
+              <Label>Variant</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {item.variants.map(option => (
+                  <Button
+                    key={option.id}
+                    variant={variant?.id === option.id ? 'default' : 'outline'}
+                    className="h-auto flex-col py-3"
+                    onClick={() => setVariant(option)}
+                  >
+                    <span className="font-semibold">{option.name}</span>
+                    <span>{currency}{option.price}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {modifierGroups.map(group => (
+            <div key={group.id} className="space-y-2">
+              <Label>
+                {group.name}
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  {group.minSelect > 0 ? `Required · ` : ''}
+                  {group.maxSelect > 0 ? `up to ${group.maxSelect}` : 'any number'}
+                </span>
+              </Label>
+              <div className="flex flex-wrap gap-2">
+                {group.options.map(option => (
+                  <Button
+                    key={option.id}
+                    size="sm"
+                    variant={modifiers.some(modifier => modifier.optionId === option.id) ? 'default' : 'outline'}
+                    onClick={() => toggleOption(group, option)}
+                  >
+                    {option.name}
+                    {option.price > 0 && ` +${currency}${option.price}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="item-notes">Instructions</Label>
+            <Textarea
+              id="item-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g., less spicy, no onion"
+              rows={2}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd}>
+            Add · {currency}{unitPrice.toFixed(2)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
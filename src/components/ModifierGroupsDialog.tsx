@@ -0,0 +1,325 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { saveModifierGroup, deleteModifierGroup } from '@/lib/db';
+import { MenuItem, ModifierGroup } from '@/types';
+import { Plus, Pencil, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface ModifierGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: ModifierGroup[];
+  menuItems: MenuItem[];
+  onChange: () => void;
+}
+
+const emptyForm = {
+  name: '',
+  minSelect: '0',
+  maxSelect: '1',
+  options: [] as { id: string; name: string; price: string }[],
+  menuItemIds: [] as string[],
+  categories: [] as string[],
+};
+
+export function ModifierGroupsDialog({ open, onOpenChange, groups, menuItems, onChange }: ModifierGroupsDialogProps) {
+  const [editingGroup, setEditingGroup] = useState<ModifierGroup | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+
+  const categories = Array.from(new Set(menuItems.map(item => item.category)));
+
+  const handleEdit = (group?: ModifierGroup) => {
+    if (group) {
+      setEditingGroup(group);
+      setFormData({
+        name: group.name,
+        minSelect: group.minSelect.toString(),
+        maxSelect: group.maxSelect.toString(),
+        options: group.options.map(option => ({ ...option, price: option.price.toString() })),
+        menuItemIds: group.menuItemIds,
+        categories: group.categories,
+      });
+    } else {
+      setEditingGroup(null);
+      setFormData({ ...emptyForm, options: [{ id: `option-${Date.now()}`, name: '', price: '0' }] });
+    }
+    setIsEditing(true);
+  };
+
+  const toggleValue = (field: 'menuItemIds' | 'categories', value: string) => {
+    const values = formData[field];
+    setFormData({
+      ...formData,
+      [field]: values.includes(value) ? values.filter(v => v !== value) : [...values, value],
+    });
+  };
+
+  const updateOption = (id: string, field: 'name' | 'price', value: string) => {
+    setFormData({
+      ...formData,
+      options: formData.options.map(option => option.id === id ? { ...option, [field]: value } : option),
+    });
+  };
+
+  const handleSubmit = async () => {
+    const minSelect = parseInt(formData.minSelect) || 0;
+    const maxSelect = parseInt(formData.maxSelect) || 0;
+    const options = formData.options.filter(option => option.name.trim());
+
+    if (!formData.name || options.length === 0) {
+      toast({
+        title: 'Validation Error',
+        description: 'A modifier group needs a name and at least one option',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (maxSelect > 0 && minSelect > maxSelect) {
+      toast({
+        title: 'Validation Error',
+        description: 'Minimum selections cannot exceed the maximum',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const now = new Date().toISOString();
+      await saveModifierGroup({
+        id: editingGroup?.id || `modgroup-${Date.now()}`,
+        name: formData.name,
+        minSelect,
+        maxSelect,
+        options: options.map(option => ({
+          id: option.id,
+          name: option.name.trim(),
+          price: parseFloat(option.price) || 0,
+        })),
+        menuItemIds: formData.menuItemIds,
+        categories: formData.categories,
+        createdAt: editingGroup?.createdAt || now,
+        updatedAt: now,
+      });
+      toast({
+        title: 'Success',
+        description: 'Modifier group saved successfully',
+      });
+      setIsEditing(false);
+      onChange();
+    } catch (error) {
+      console.error('Failed to save modifier group:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save modifier group',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this modifier group?')) return;
+
+    try {
+      await deleteModifierGroup(id);
+      onChange();
+    } catch (error) {
+      console.error('Failed to delete modifier group:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete modifier group',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setIsEditing(false);
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? (editingGroup ? 'Edit Modifier Group' : 'Add Modifier Group') : 'Modifiers'}</DialogTitle>
+          <DialogDescription>
+            Add-ons and instructions offered when billing selected items or categories
+          </DialogDescription>
+        </DialogHeader>
+
+        {isEditing ? (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="space-y-2">
+              <Label htmlFor="group-name">Group Name *</Label>
+              <Input
+                id="group-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Add-ons, Spice Level"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="group-min">Min Selections</Label>
+                <Input
+                  id="group-min"
+                  type="number"
+                  min="0"
+                  value={formData.minSelect}
+                  onChange={(e) => setFormData({ ...formData, minSelect: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="group-max">Max Selections (0 = no limit)</Label>
+                <Input
+                  id="group-max"
+                  type="number"
+                  min="0"
+                  value={formData.maxSelect}
+                  onChange={(e) => setFormData({ ...formData, maxSelect: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Options *</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setFormData({
+                    ...formData,
+                    options: [...formData.options, { id: `option-${Date.now()}`, name: '', price: '0' }],
+                  })}
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add Option
+                </Button>
+              </div>
+              {formData.options.map(option => (
+                <div key={option.id} className="flex gap-2">
+                  <Input
+                    value={option.name}
+                    onChange={(e) => updateOption(option.id, 'name', e.target.value)}
+                    placeholder="e.g., Extra Cheese"
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    className="w-32"
+                    value={option.price}
+                    onChange={(e) => updateOption(option.id, 'price', e.target.value)}
+                    placeholder="0 = free"
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setFormData({
+                      ...formData,
+                      options: formData.options.filter(o => o.id !== option.id),
+                    })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies to Categories</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {categories.map(category => (
+                  <label key={category} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.categories.includes(category)}
+                      onCheckedChange={() => toggleValue('categories', category)}
+                    />
+                    {category}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies to Items</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {menuItems.map(item => (
+                  <label key={item.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.menuItemIds.includes(item.id)}
+                      onCheckedChange={() => toggleValue('menuItemIds', item.id)}
+                    />
+                    {item.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {groups.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">No modifier groups yet</p>
+            ) : (
+              groups.map(group => (
+                <div key={group.id} className="flex items-center gap-2 p-3 rounded bg-muted">
+                  <div className="flex-1">
+                    <p className="font-semibold text-sm">{group.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {group.options.map(option => option.name).join(', ')}
+                    </p>
+                  </div>
+                  <Button size="icon" variant="ghost" onClick={() => handleEdit(group)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => handleDelete(group.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {isEditing ? (
+            <>
+              <Button variant="outline" onClick={() => setIsEditing(false)}>
+                Back
+              </Button>
+              <Button onClick={handleSubmit}>
+                {editingGroup ? 'Update' : 'Create'}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => handleEdit()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Modifier Group
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
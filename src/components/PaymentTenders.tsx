@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PaymentMethod, PaymentTender } from '@/types';
+import { PAYMENT_METHODS, getPaidAmount, getChangeDue } from '@/lib/payments';
+import { roundMoney } from '@/lib/billing';
+import { Plus, X } from 'lucide-react';
+
+interface PaymentTendersProps {
+  total: number;
+  currency: string;
+  payments: PaymentTender[];
+  onChange: (payments: PaymentTender[]) => void;
+}
+
+export function PaymentTenders({ total, currency, payments, onChange }: PaymentTendersProps) {
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const remaining = roundMoney(total - getPaidAmount(payments));
+  const changeDue = getChangeDue(payments);
+
+  const handleAdd = () => {
+    const value = amount ? parseFloat(amount) : remaining;
+    if (isNaN(value) || value <= 0) {
+      setError('Enter an amount greater than zero');
+      return;
+    }
+
+    if (value > remaining) {
+      // Only cash can be over-tendered; the difference is handed back as change
+      if (method !== 'cash') {
+        setError(`${method.toUpperCase()} payment cannot exceed the balance of ${currency}${remaining.toFixed(2)}`);
+        return;
+      }
+      onChange([...payments, { method, amount: remaining, tendered: roundMoney(value) }]);
+    } else {
+      onChange([...payments, {
+        method,
+        amount: roundMoney(value),
+        reference: method !== 'cash' && reference ? reference : undefined,
+      }]);
+    }
+
+    setAmount('');
+    setReference('');
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Payment</Label>
+        {payments.length > 0 && (
+          <span className="text-sm font-semibold">
+            {remaining > 0
+              ? `Balance ${currency}${remaining.toFixed(2)}`
+              : remaining < 0
+                ? <span className="text-destructive">Overpaid {currency}{(-remaining).toFixed(2)}</span>
+                : 'Fully paid'}
+          </span>
+        )}
+      </div>
+
+      {payments.map((payment, index) => (
+        <div key={index} className="flex items-center gap-2 p-2 rounded bg-muted text-sm">
+          <span className="font-semibold uppercase w-12">{payment.method}</span>
+          <span className="flex-1 text-xs text-muted-foreground">
+            {payment.reference || (payment.tendered ? `Received ${currency}${payment.tendered.toFixed(2)}` : '')}
+          </span>
+          <span className="font-bold">{currency}{payment.amount.toFixed(2)}</span>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={() => onChange(payments.filter((_, i) => i !== index))}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+
+      {changeDue > 0 && (
+        <div className="flex justify-between text-sm font-bold text-primary">
+          <span>Change Due</span>
+          <span>{currency}{changeDue.toFixed(2)}</span>
+        </div>
+      )}
+
+      {remaining > 0 && (
+        <div className="flex gap-2">
+          <Select value={method} onValueChange={(value: PaymentMethod) => setMethod(value)}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_METHODS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={remaining.toFixed(2)}
+          />
+          {method !== 'cash' && (
+            <Input
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Ref / Txn ID"
+            />
+          )}
+          <Button size="icon" variant="outline" onClick={handleAdd}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {payments.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add one or more payments. Saving without any records the full amount as cash.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Bill, CreditNote, PaymentMethod } from '@/types';
+import { formatItemName, getLineKey } from '@/lib/billing';
+import { PAYMENT_METHODS, getBillPayments } from '@/lib/payments';
+import { calculateCreditNoteTotals, getRefundableQuantities } from '@/lib/refunds';
+
+interface RefundDialogProps {
+  open: boolean;
+  bill: Bill | null;
+  creditNotes: CreditNote[];
+  currency: string;
+  onClose: () => void;
+  onRefund: (quantities: Record<string, number>, reason: string, refundMethod: PaymentMethod) => void;
+}
+
+export function RefundDialog({ open, bill, creditNotes, currency, onClose, onRefund }: RefundDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [error, setError] = useState<string | null>(null);
+
+  const refundable = bill ? getRefundableQuantities(bill, creditNotes) : {};
+
+  useEffect(() => {
+    if (!open || !bill) return;
+    setQuantities({});
+    setReason('');
+    setRefundMethod(getBillPayments(bill)[0]?.method || 'cash');
+    setError(null);
+  }, [open, bill]);
+
+  if (!bill) return null;
+
+  const totals = calculateCreditNoteTotals(bill, quantities, creditNotes);
+
+  const handleQuantityChange = (key: string, value: string) => {
+    const quantity = Math.min(refundable[key] || 0, Math.max(0, parseFloat(value) || 0));
+    setQuantities({ ...quantities, [key]: quantity });
+  };
+
+  const handleRefund = () => {
+    if (totals.items.length === 0) {
+      setError('Select at least one item to refund');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Enter a reason for the refund');
+      return;
+    }
+    onRefund(quantities, reason.trim(), refundMethod);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Refund {bill.billNumber}</DialogTitle>
+          <DialogDescription>
+            Choose the quantities to refund; a credit note is issued for them
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {bill.items.map(item => {
+              const key = getLineKey(item);
+              return (
+                <div key={key} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1">
+                    {formatItemName(item)}
+                    <span className="text-muted-foreground"> · {refundable[key]} of {item.quantity} refundable</span>
+                  </span>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={refundable[key]}
+                    className="w-20"
+                    value={quantities[key] || ''}
+                    disabled={!refundable[key]}
+                    onChange={(e) => handleQuantityChange(key, e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setQuantities(refundable)}>
+            Refund All Remaining
+          </Button>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason *</Label>
+              <Input
+                id="refund-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., Item returned"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Refund By</Label>
+              <Select value={refundMethod} onValueChange={(value: PaymentMethod) => setRefundMethod(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-between text-lg font-bold border-t pt-2">
+            <span>Refund Total</span>
+            <span className="text-destructive">{currency}{totals.total.toFixed(2)}</span>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleRefund}>
+            Issue Credit Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
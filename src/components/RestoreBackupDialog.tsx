@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Bill } from '@/types';
+import { ParsedBackup, getBackupCounts } from '@/lib/backup';
+import { DuplicateBillAction, RestoreMode } from '@/lib/db';
+
+interface RestoreBackupDialogProps {
+  open: boolean;
+  backup: ParsedBackup | null;
+  // Backup bills whose number is already used by a different local bill
+  duplicateBills: Bill[];
+  onClose: () => void;
+  onRestore: (mode: RestoreMode, duplicateBills: DuplicateBillAction) => Promise<void>;
+}
+
+export function RestoreBackupDialog({ open, backup, duplicateBills, onClose, onRestore }: RestoreBackupDialogProps) {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [duplicateAction, setDuplicateAction] = useState<DuplicateBillAction>('skip');
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode('merge');
+    setDuplicateAction('skip');
+    setRestoring(false);
+  }, [open]);
+
+  if (!backup) return null;
+
+  const counts = getBackupCounts(backup.data);
+
+  const handleRestore = async () => {
+    if (mode === 'replace' && !confirm('Replace mode deletes the current data in these stores. Continue?')) return;
+    setRestoring(true);
+    try {
+      await onRestore(mode, duplicateAction);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            {backup.exportDate ? `Taken ${new Date(backup.exportDate).toLocaleString()}` : 'Date unknown'}
+            {backup.schemaVersion ? ` · schema v${backup.schemaVersion}` : ''}
+            {backup.checksumVerified ? ' · checksum verified' : ' · older backup without a checksum'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="rounded-md border p-3 space-y-1 text-sm">
+            {counts.map(({ store, label, count }) => (
+              <div key={store} className="flex justify-between">
+                <span>{label}</span>
+                <span className="font-medium">{count}</span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>Restore Mode</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Merge: add records missing on this device</SelectItem>
+                <SelectItem value="replace">Replace: clear current data, then restore</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === 'merge' && duplicateBills.length > 0 && (
+            <div className="space-y-2">
+              <Label>Duplicate Bill Numbers</Label>
+              <p className="text-sm text-muted-foreground">
+                {duplicateBills.length} bill{duplicateBills.length === 1 ? '' : 's'} in the backup
+                use{duplicateBills.length === 1 ? 's' : ''} a number already taken on this device:{' '}
+                {duplicateBills.slice(0, 5).map(bill => bill.billNumber).join(', ')}
+                {duplicateBills.length > 5 ? '…' : ''}
+              </p>
+              <Select value={duplicateAction} onValueChange={(value) => setDuplicateAction(value as DuplicateBillAction)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip those bills and their credit notes</SelectItem>
+                  <SelectItem value="renumber">Restore them with new bill numbers</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {mode === 'replace' && (
+            <p className="text-sm text-destructive">
+              Current {counts.map(({ label }) => label.toLowerCase()).join(', ')} will be deleted and replaced by the backup.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+            disabled={restoring}
+            onClick={handleRestore}
+          >
+            {restoring ? 'Restoring...' : 'Restore'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AppSettings, BillItem, ChargeConfig, Discount, PaymentMethod, SplitMode } from '@/types';
+import { calculateTotals, formatItemName, getLineKey } from '@/lib/billing';
+import { PAYMENT_METHODS } from '@/lib/payments';
+import {
+  SplitAssignment,
+  createAssignment,
+  resizeAssignment,
+  moveUnit,
+  assignLine,
+  prorateDiscount,
+  splitByAssignment,
+  splitEqually,
+} from '@/lib/split';
+
+export interface SplitPart {
+  items: BillItem[];
+  discount?: Discount;
+  charges: ChargeConfig[];
+  method: PaymentMethod;
+}
+
+interface SplitBillDialogProps {
+  open: boolean;
+  items: BillItem[];
+  billDiscount?: Discount;
+  charges: ChargeConfig[];
+  settings: AppSettings | null;
+  interState: boolean;
+  defaultParts: number;
+  onClose: () => void;
+  onConfirm: (mode: SplitMode, parts: SplitPart[]) => void;
+}
+
+const modeLabels: Record<SplitMode, string> = {
+  items: 'By Items',
+  seats: 'By Seats',
+  equal: 'Equally',
+};
+
+export function SplitBillDialog({ open, items, billDiscount, charges, settings, interState, defaultParts, onClose, onConfirm }: SplitBillDialogProps) {
+  const [mode, setMode] = useState<SplitMode>('items');
+  const [count, setCount] = useState(2);
+  const [assignment, setAssignment] = useState<SplitAssignment>({});
+  const [methods, setMethods] = useState<PaymentMethod[]>([]);
+  const currency = settings?.currency || '₹';
+
+  useEffect(() => {
+    if (!open) return;
+    const parts = Math.max(2, defaultParts);
+    setMode('items');
+    setCount(parts);
+    setAssignment(createAssignment(items, parts));
+    setMethods(Array(parts).fill('cash'));
+  }, [open, items, defaultParts]);
+
+  const handleCountChange = (value: string) => {
+    const parts = Math.min(20, Math.max(2, parseInt(value) || 2));
+    setCount(parts);
+    setAssignment(resizeAssignment(assignment, parts));
+    setMethods(Array.from({ length: parts }, (_, i) => methods[i] || 'cash'));
+  };
+
+  const handleModeChange = (next: SplitMode) => {
+    // Seats take whole lines, so lines spread over several bills are regrouped
+    if (next === 'seats') {
+      let regrouped = assignment;
+      for (const [key, quantities] of Object.entries(assignment)) {
+        regrouped = assignLine(regrouped, key, Math.max(0, quantities.findIndex(quantity => quantity > 0)));
+      }
+      setAssignment(regrouped);
+    }
+    setMode(next);
+  };
+
+  const partItems = mode === 'equal'
+    ? splitEqually(items, count)
+    : splitByAssignment(items, assignment, count).map((lines, part) =>
+        mode === 'seats' ? lines.map(line => ({ ...line, seat: part + 1 })) : lines
+      );
+
+  // Net of line discounts, before tax is added or taken out
+  const getNet = (lines: BillItem[]) => {
+    const totals = calculateTotals(lines, settings);
+    return totals.subtotal - totals.itemDiscount;
+  };
+  const netTotal = getNet(items);
+  const parts: SplitPart[] = partItems.map((lines, part) => {
+    const partNet = getNet(lines);
+    const share = netTotal > 0 ? partNet / netTotal : 0;
+    return {
+      items: lines,
+      discount: prorateDiscount(billDiscount, share),
+      charges: charges.map(charge => prorateDiscount(charge, share)!),
+      method: methods[part] || 'cash',
+    };
+  });
+  const hasEmptyPart = parts.some(part => part.items.length === 0);
+
+  const handleDrop = (e: React.DragEvent, to: number) => {
+    e.preventDefault();
+    const { lineKey, from } = JSON.parse(e.dataTransfer.getData('text/plain'));
+    setAssignment(moveUnit(assignment, lineKey, from, to));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Split Bill</DialogTitle>
+          <DialogDescription>
+            {mode === 'items' && 'Drag items between bills; each drop moves one unit'}
+            {mode === 'seats' && 'Assign every item to the seat that ordered it'}
+            {mode === 'equal' && 'Every bill pays an equal share of the order'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex gap-2">
+            {(Object.keys(modeLabels) as SplitMode[]).map(option => (
+              <Button
+                key={option}
+                variant={mode === option ? 'default' : 'outline'}
+                onClick={() => handleModeChange(option)}
+              >
+                {modeLabels[option]}
+              </Button>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="split-count">{mode === 'seats' ? 'Seats' : 'Bills'}</Label>
+            <Input
+              id="split-count"
+              type="number"
+              min="2"
+              max="20"
+              className="w-24"
+              value={count}
+              onChange={(e) => handleCountChange(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {mode === 'seats' && (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {items.map(item => {
+              const key = getLineKey(item);
+              const seat = assignment[key]?.findIndex(quantity => quantity > 0) ?? 0;
+              return (
+                <div key={key} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1">{formatItemName(item)} × {item.quantity}</span>
+                  <Select
+                    value={String(Math.max(0, seat))}
+                    onValueChange={(value) => setAssignment(assignLine(assignment, key, parseInt(value)))}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: count }, (_, i) => (
+                        <SelectItem key={i} value={String(i)}>Seat {i + 1}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid gap-3 max-h-[50vh] overflow-y-auto" style={{ gridTemplateColumns: `repeat(${Math.min(count, 4)}, minmax(0, 1fr))` }}>
+          {parts.map((part, index) => {
+            const totals = calculateTotals(part.items, settings, part.discount, interState, part.charges);
+            return (
+              <div
+                key={index}
+                className="rounded border p-3 space-y-2 min-h-40"
+                onDragOver={(e) => mode === 'items' && e.preventDefault()}
+                onDrop={(e) => mode === 'items' && handleDrop(e, index)}
+              >
+                <p className="font-semibold">
+                  {mode === 'seats' ? `Seat ${index + 1}` : `Bill ${index + 1}`}
+                </p>
+                {part.items.map(item => (
+                  <div
+                    key={getLineKey(item)}
+                    draggable={mode === 'items'}
+                    onDragStart={(e) => e.dataTransfer.setData(
+                      'text/plain',
+                      JSON.stringify({ lineKey: getLineKey(item), from: index })
+                    )}
+                    className={`flex justify-between gap-2 rounded bg-muted p-1 text-xs ${mode === 'items' ? 'cursor-move' : ''}`}
+                  >
+                    <span>{formatItemName(item)} × {item.quantity}</span>
+                    <span>{currency}{item.subtotal.toFixed(2)}</span>
+                  </div>
+                ))}
+                <div className="border-t pt-2 text-sm font-bold flex justify-between">
+                  <span>Total</span>
+                  <span>{currency}{totals.total.toFixed(2)}</span>
+                </div>
+                <Select
+                  value={part.method}
+                  onValueChange={(value: PaymentMethod) => setMethods(methods.map((m, i) => (i === index ? value : m)))}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          {hasEmptyPart && (
+            <p className="mr-auto text-sm text-destructive">Every bill needs at least one item</p>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={hasEmptyPart} onClick={() => onConfirm(mode, parts)}>
+            Create {count} Bills
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { ReactNode, useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { openDatabase } from '@/lib/db';
+import { MigrationProgress } from '@/lib/migrations';
+import { startSyncWorker } from '@/lib/sync';
+import { startReplicationWorker } from '@/lib/replication';
+import { Database, AlertTriangle } from 'lucide-react';
+
+interface StartupScreenProps {
+  children: ReactNode;
+}
+
+// Holds the app back until the database is open and migrated, then starts
+// the background sync and replication. If a migration fails nothing else runs, so no page can
+// write to a half-upgraded database.
+export function StartupScreen({ children }: StartupScreenProps) {
+  const [ready, setReady] = useState(false);
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [blocked, setBlocked] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = useCallback(async () => {
+    setError(null);
+    setBlocked(false);
+    try {
+      await openDatabase(setProgress, () => setBlocked(true));
+      setReady(true);
+    } catch (err) {
+      console.error('Failed to open database:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open the database');
+    }
+  }, []);
+
+  useEffect(() => {
+    open();
+  }, [open]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const stopSync = startSyncWorker();
+    const stopReplication = startReplicationWorker();
+    return () => {
+      stopSync();
+      stopReplication();
+    };
+  }, [ready]);
+
+  if (ready) return <>{children}</>;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-background">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {error ? <AlertTriangle className="h-5 w-5 text-destructive" /> : <Database className="h-5 w-5" />}
+            {error ? 'Database Upgrade Failed' : progress ? 'Upgrading Database' : 'Starting Up'}
+          </CardTitle>
+          <CardDescription>
+            {error
+              ? 'The database was left at its previous version and the app will not start until the upgrade succeeds. No data has been changed.'
+              : progress
+                ? `Step ${progress.step} of ${progress.steps}: ${progress.description}`
+                : 'Opening the local database...'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error ? (
+            <>
+              <p className="text-sm text-destructive whitespace-pre-wrap">{error}</p>
+              <Button onClick={open}>Retry</Button>
+            </>
+          ) : (
+            <>
+              <Progress value={progress ? (progress.step / progress.steps) * 100 : undefined} />
+              {blocked && (
+                <p className="text-sm text-muted-foreground">
+                  Waiting for other tabs of the POS to close before upgrading.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { applyUpdate, canOfferUpdate, subscribeUpdate } from '@/lib/pwa';
+import { RefreshCw } from 'lucide-react';
+
+// Offers a new version of the app in the header. It never reloads on its own
+// and stays hidden while a bill is being entered.
+export function UpdatePrompt() {
+  const [visible, setVisible] = useState(canOfferUpdate());
+
+  useEffect(() => subscribeUpdate(() => setVisible(canOfferUpdate())), []);
+
+  if (!visible) return null;
+
+  return (
+    <div className="ml-auto flex items-center gap-2 text-sm">
+      <span className="text-muted-foreground hidden sm:inline">A new version is ready</span>
+      <Button size="sm" variant="outline" onClick={applyUpdate}>
+        <RefreshCw className="mr-2 h-4 w-4" />
+        Update
+      </Button>
+    </div>
+  );
+}
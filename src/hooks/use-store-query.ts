@@ -0,0 +1,29 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import type { DataStore } from '@/lib/broadcast';
+
+// Loads data from the local database and loads it again whenever one of the
+// stores it reads is written, in this tab or another
+export function useStoreQuery<T>(stores: DataStore[], key: unknown[], queryFn: () => Promise<T>) {
+  return useQuery({
+    queryKey: [...stores, ...key],
+    queryFn,
+    meta: { stores },
+  });
+}
+
+// The same for a list read a page at a time. A write reloads every page
+// loaded so far, so rows already on screen stay in place.
+export function useStorePages<T, C>(
+  stores: DataStore[],
+  key: unknown[],
+  queryFn: (cursor: C | undefined) => Promise<T>,
+  getNextCursor: (page: T) => C | undefined
+) {
+  return useInfiniteQuery({
+    queryKey: [...stores, ...key],
+    queryFn: ({ pageParam }) => queryFn(pageParam as C | undefined),
+    initialPageParam: undefined as C | undefined,
+    getNextPageParam: getNextCursor,
+    meta: { stores },
+  });
+}
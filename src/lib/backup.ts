@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { BACKUP_STORES, BackupData, BackupStore, DB_VERSION, exportAllData } from './db';
+import { migrateBackupData } from './migrations';
+
+export const BACKUP_FORMAT = 'restaurant-pos-backup';
+export const BACKUP_VERSION = 2;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  // Database version the backup was taken from
+  schemaVersion: number;
+  exportDate: string;
+  // SHA-256 of the serialized data
+  checksum: string;
+  data: BackupData;
+}
+
+// A backup read back from a file. Backups made before the full format only
+// hold bills and menu items, so only the stores present are restored.
+export interface ParsedBackup {
+  version: number;
+  schemaVersion?: number;
+  exportDate?: string;
+  checksumVerified: boolean;
+  data: Partial<BackupData>;
+}
+
+export const BACKUP_STORE_LABELS: Record<BackupStore, string> = {
+  users: 'Users',
+  settings: 'Settings',
+  menuItems: 'Menu items',
+  modifierGroups: 'Modifier groups',
+  tables: 'Tables',
+  counters: 'Number counters',
+  bills: 'Bills',
+  creditNotes: 'Credit notes',
+  kots: 'KOTs',
+  openOrders: 'Open orders',
+  heldOrders: 'Held orders',
+};
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createBackup(): Promise<BackupFile> {
+  const data = await exportAllData();
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: DB_VERSION,
+    exportDate: new Date().toISOString(),
+    checksum: await sha256Hex(JSON.stringify(data)),
+    data,
+  };
+}
+
+// Only the fields restore and the app cannot do without are checked; the
+// rest of each record is kept as it is
+const record = z.object({ id: z.string().min(1) }).passthrough();
+const billRecord = record.extend({
+  billNumber: z.string().min(1),
+  items: z.array(z.object({}).passthrough()),
+  total: z.number(),
+  createdAt: z.string(),
+});
+
+const storeSchemas: Record<BackupStore, z.ZodTypeAny> = {
+  users: z.array(record.extend({ username: z.string().min(1), passwordHash: z.string().min(1), role: z.enum(['admin', 'staff', 'manager']) })),
+  settings: z.array(record.extend({ shopName: z.string(), cgstRate: z.number(), sgstRate: z.number() })).max(1),
+  menuItems: z.array(record.extend({ name: z.string(), price: z.number(), category: z.string() })),
+  modifierGroups: z.array(record.extend({ options: z.array(z.object({}).passthrough()) })),
+  tables: z.array(record.extend({ name: z.string() })),
+  counters: z.array(record.extend({ series: z.enum(['bill', 'creditNote', 'kot']), period: z.string(), value: z.number().int().min(0) })),
+  bills: z.array(billRecord),
+  creditNotes: z.array(record.extend({ creditNoteNumber: z.string().min(1), billId: z.string().min(1), total: z.number(), createdAt: z.string() })),
+  kots: z.array(record.extend({ kotNumber: z.string().min(1), createdAt: z.string() })),
+  openOrders: z.array(record.extend({ tableId: z.string().min(1) })),
+  heldOrders: z.array(record),
+};
+
+const fullBackupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int(),
+  schemaVersion: z.number().int(),
+  exportDate: z.string(),
+  checksum: z.string().regex(/^[0-9a-f]{64}$/),
+  data: z.object(storeSchemas),
+});
+
+// The original backup of bills and menu items only
+const legacyBackupSchema = z.object({
+  version: z.literal('1.0'),
+  exportDate: z.string().optional(),
+  data: z.object({ bills: storeSchemas.bills, menuItems: storeSchemas.menuItems }),
+});
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+    .join('\n');
+}
+
+function findDuplicateIds(data: Partial<BackupData>): string | null {
+  for (const name of BACKUP_STORES) {
+    const ids = new Set<string>();
+    for (const item of data[name] || []) {
+      const id = (item as { id: string }).id;
+      if (ids.has(id)) return `${BACKUP_STORE_LABELS[name]} contain the id ${id} more than once`;
+      ids.add(id);
+    }
+  }
+  return null;
+}
+
+// Reads and checks a backup file, throwing an error that can be shown to the user
+export async function parseBackup(text: string): Promise<ParsedBackup> {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not a valid JSON backup');
+  }
+
+  const legacy = legacyBackupSchema.safeParse(json);
+  if (legacy.success) {
+    const data = legacy.data.data as Partial<BackupData>;
+    const duplicate = findDuplicateIds(data);
+    if (duplicate) throw new Error(duplicate);
+    return { version: 1, exportDate: legacy.data.exportDate, checksumVerified: false, data: migrateBackupData(data, 1) };
+  }
+
+  const parsed = fullBackupSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`The backup is not in a format this app can restore:\n${describeIssues(parsed.error)}`);
+  }
+
+  const backup = json as BackupFile;
+  if (backup.version > BACKUP_VERSION || backup.schemaVersion > DB_VERSION) {
+    throw new Error('The backup was made by a newer version of the app; update the app before restoring it');
+  }
+  if (await sha256Hex(JSON.stringify(backup.data)) !== backup.checksum) {
+    throw new Error('The backup checksum does not match; the file is damaged or has been edited');
+  }
+  if (!backup.data.users.some(user => user.role === 'admin' && user.isActive)) {
+    throw new Error('The backup has no active admin user');
+  }
+  const duplicate = findDuplicateIds(backup.data);
+  if (duplicate) throw new Error(duplicate);
+
+  return {
+    version: backup.version,
+    schemaVersion: backup.schemaVersion,
+    exportDate: backup.exportDate,
+    checksumVerified: true,
+    data: migrateBackupData(backup.data, backup.schemaVersion),
+  };
+}
+
+export function getBackupCounts(data: Partial<BackupData>): { store: BackupStore; label: string; count: number }[] {
+  return BACKUP_STORES
+    .filter(name => data[name])
+    .map(name => ({ store: name, label: BACKUP_STORE_LABELS[name], count: data[name]!.length }));
+}
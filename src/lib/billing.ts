@@ -0,0 +1,318 @@
+import {
+  AppSettings,
+  Bill,
+  BillCharge,
+  BillItem,
+  BillItemModifier,
+  ChargeConfig,
+  Discount,
+  MenuItem,
+  ModifierGroup,
+  OrderType,
+  RoundOffRule,
+  TaxClass,
+} from '@/types';
+
+export function getLineKey(item: Pick<BillItem, 'lineId' | 'menuItemId'>): string {
+  return item.lineId || item.menuItemId;
+}
+
+export function formatItemName(item: Pick<BillItem, 'name' | 'variantName'>): string {
+  return item.variantName ? `${item.name} (${item.variantName})` : item.name;
+}
+
+// Lines with the same signature are merged when the item is added again
+export function getLineSignature(
+  item: Pick<BillItem, 'menuItemId' | 'variantId' | 'modifiers' | 'notes'>
+): string {
+  const modifierIds = (item.modifiers || []).map(modifier => modifier.optionId).sort();
+  return [item.menuItemId, item.variantId || '', modifierIds.join('+'), item.notes?.trim() || ''].join('|');
+}
+
+export function getModifiersTotal(modifiers?: BillItemModifier[]): number {
+  return (modifiers || []).reduce((sum, modifier) => sum + modifier.price, 0);
+}
+
+export function getApplicableModifierGroups(item: MenuItem, groups: ModifierGroup[]): ModifierGroup[] {
+  return groups.filter(group =>
+    group.menuItemIds.includes(item.id) || group.categories.includes(item.category)
+  );
+}
+
+// Returns an error message when a group's min/max selection rule is broken
+export function validateModifierSelection(
+  groups: ModifierGroup[],
+  selected: BillItemModifier[]
+): string | null {
+  for (const group of groups) {
+    const count = selected.filter(modifier => modifier.groupId === group.id).length;
+    if (count < group.minSelect) {
+      return `Select at least ${group.minSelect} from ${group.name}`;
+    }
+    if (group.maxSelect > 0 && count > group.maxSelect) {
+      return `Select at most ${group.maxSelect} from ${group.name}`;
+    }
+  }
+  return null;
+}
+
+export const DEFAULT_DISCOUNT_REASONS = [
+  'Regular Customer',
+  'Staff Meal',
+  'Complaint',
+  'Promotion',
+  'Manager Approval',
+];
+
+export function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function getDiscountAmount(base: number, discount?: Pick<Discount, 'type' | 'value'>): number {
+  if (!discount || base <= 0) return 0;
+  const amount = discount.type === 'percent' ? base * discount.value / 100 : discount.value;
+  return roundMoney(Math.min(Math.max(amount, 0), base));
+}
+
+export function formatDiscount(discount: Pick<Discount, 'type' | 'value'>, currency: string): string {
+  return discount.type === 'percent' ? `${discount.value}%` : `${currency}${discount.value}`;
+}
+
+export interface BillTotals {
+  items: BillItem[];
+  subtotal: number;
+  itemDiscount: number;
+  discount?: Discount;
+  discountTotal: number;
+  charges: BillCharge[];
+  chargesTotal: number;
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  roundOff: number;
+  total: number;
+  taxInclusive: boolean;
+}
+
+export const ROUND_OFF_RULES: { value: RoundOffRule; label: string }[] = [
+  { value: 'none', label: 'No rounding' },
+  { value: 'nearest', label: 'Nearest ₹1' },
+  { value: 'nearestHalf', label: 'Nearest ₹0.50' },
+  { value: 'up', label: 'Always up to ₹1' },
+  { value: 'down', label: 'Always down to ₹1' },
+];
+
+// Amount to add to a total so it lands on the rule's step; negative when rounding down
+export function getRoundOff(amount: number, rule: RoundOffRule = 'none'): number {
+  switch (rule) {
+    case 'nearest':
+      return roundMoney(Math.round(amount) - amount);
+    case 'nearestHalf':
+      return roundMoney(Math.round(amount * 2) / 2 - amount);
+    case 'up':
+      return roundMoney(Math.ceil(amount) - amount);
+    case 'down':
+      return roundMoney(Math.floor(amount) - amount);
+    default:
+      return 0;
+  }
+}
+
+export const GST_SLABS = [0, 5, 12, 18, 28];
+
+// Tax fields copied onto a cart line from its menu item
+export function getLineTaxFields(tax?: TaxClass): Pick<BillItem, 'gstRate' | 'hsnCode' | 'taxExempt'> {
+  if (!tax) return {};
+  return { gstRate: tax.gstRate, hsnCode: tax.hsnCode || undefined, taxExempt: tax.exempt || undefined };
+}
+
+export function getLineTaxRates(
+  item: Pick<BillItem, 'gstRate' | 'taxExempt'>,
+  settings: Pick<AppSettings, 'cgstRate' | 'sgstRate'> | null
+): { cgstRate: number; sgstRate: number } {
+  if (item.taxExempt) return { cgstRate: 0, sgstRate: 0 };
+  if (item.gstRate !== undefined) return { cgstRate: item.gstRate / 2, sgstRate: item.gstRate / 2 };
+  return { cgstRate: settings?.cgstRate ?? 2.5, sgstRate: settings?.sgstRate ?? 2.5 };
+}
+
+export interface TaxRateSummary {
+  // Combined GST rate; 0 covers exempt lines
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Groups the per-line tax of a bill by GST rate, for the receipt and returns.
+// Taxable charges are counted at their own rate alongside the items.
+export function summarizeTaxByRate(items: BillItem[], charges: BillCharge[] = []): TaxRateSummary[] {
+  const chargeLines: Pick<BillItem, 'taxableValue' | 'gstRate' | 'taxExempt' | 'cgst' | 'sgst' | 'igst'>[] = charges
+    .filter(charge => charge.taxable)
+    .map(charge => ({ ...charge, taxableValue: charge.amount }));
+  const rates = new Map<number, TaxRateSummary>();
+  for (const item of [...items, ...chargeLines]) {
+    if (item.taxableValue === undefined) continue;
+    const rate = item.taxExempt ? 0 : item.gstRate ?? 0;
+    const entry = rates.get(rate) || { rate, taxableValue: 0, cgst: 0, sgst: 0, igst: 0 };
+    rates.set(rate, {
+      rate,
+      taxableValue: roundMoney(entry.taxableValue + item.taxableValue),
+      cgst: roundMoney(entry.cgst + (item.cgst || 0)),
+      sgst: roundMoney(entry.sgst + (item.sgst || 0)),
+      igst: roundMoney(entry.igst + (item.igst || 0)),
+    });
+  }
+  return Array.from(rates.values()).sort((a, b) => a.rate - b.rate);
+}
+
+export const ORDER_TYPES: { value: OrderType; label: string }[] = [
+  { value: 'dine-in', label: 'Dine-in' },
+  { value: 'takeaway', label: 'Takeaway' },
+  { value: 'delivery', label: 'Delivery' },
+];
+
+// Older bills have no order type; table bills were dine-in and the rest takeaway
+export function getOrderType(bill: Pick<Bill, 'orderType' | 'tableId'>): OrderType {
+  return bill.orderType || (bill.tableId ? 'dine-in' : 'takeaway');
+}
+
+export function getOrderTypeLabel(orderType: OrderType): string {
+  return ORDER_TYPES.find(type => type.value === orderType)?.label || orderType;
+}
+
+// Starting point for a new charge of each order type in settings
+export const DEFAULT_CHARGES: Record<OrderType, Omit<ChargeConfig, 'id'>> = {
+  'dine-in': { name: 'Service Charge', type: 'percent', value: 10, taxable: true, orderTypes: ['dine-in'] },
+  takeaway: { name: 'Packaging Charge', type: 'flat', value: 20, taxable: true, orderTypes: ['takeaway', 'delivery'] },
+  delivery: { name: 'Delivery Charge', type: 'flat', value: 40, taxable: true, orderTypes: ['delivery'] },
+};
+
+export function getApplicableCharges(settings: Pick<AppSettings, 'charges'> | null, orderType: OrderType): ChargeConfig[] {
+  return (settings?.charges || []).filter(charge => charge.orderTypes.includes(orderType));
+}
+
+export function getChargesTotal(bill: Pick<Bill, 'charges'>): number {
+  return roundMoney((bill.charges || []).reduce((sum, charge) => sum + charge.amount, 0));
+}
+
+// Charges are worked out on the food's value before tax and are always
+// added on top, even when menu prices include tax
+function applyCharge(
+  charge: ChargeConfig,
+  base: number,
+  settings: Pick<AppSettings, 'cgstRate' | 'sgstRate'> | null,
+  interState: boolean
+): BillCharge {
+  const amount = charge.type === 'percent'
+    ? roundMoney(base * charge.value / 100)
+    : roundMoney(Math.max(charge.value, 0));
+  const { cgstRate, sgstRate } = charge.taxable
+    ? getLineTaxRates({}, settings)
+    : { cgstRate: 0, sgstRate: 0 };
+  return {
+    chargeId: charge.id,
+    name: charge.name,
+    type: charge.type,
+    value: charge.value,
+    amount,
+    taxable: charge.taxable,
+    gstRate: charge.taxable ? cgstRate + sgstRate : undefined,
+    ...getLineTax(amount, cgstRate, sgstRate, interState, false),
+  };
+}
+
+// Tax on a line's net amount. With tax-inclusive prices the tax is taken
+// out of the amount at each rate and the taxable value is what is left, so
+// the line still adds up to the price charged.
+function getLineTax(
+  lineNet: number,
+  cgstRate: number,
+  sgstRate: number,
+  interState: boolean,
+  inclusive: boolean
+): { taxableValue: number; cgst: number; sgst: number; igst?: number } {
+  const base = inclusive ? lineNet * 100 / (100 + cgstRate + sgstRate) : lineNet;
+  const cgst = interState ? 0 : roundMoney(base * cgstRate / 100);
+  const sgst = interState ? 0 : roundMoney(base * sgstRate / 100);
+  const igst = interState ? roundMoney(base * (cgstRate + sgstRate) / 100) : undefined;
+  const taxableValue = inclusive ? roundMoney(lineNet - cgst - sgst - (igst || 0)) : roundMoney(lineNet);
+  return { taxableValue, cgst, sgst, igst };
+}
+
+// Discounts come off before tax: line discounts first, then the bill
+// discount on what remains. The bill discount is shared across lines by
+// their net value so each line is taxed at its own GST rate. Inter-state
+// supplies are charged the combined rate as IGST. Rounding the total is kept
+// apart from the tax so the round-off can be shown on its own line.
+export function calculateTotals(
+  cart: BillItem[],
+  settings: Pick<AppSettings, 'cgstRate' | 'sgstRate' | 'taxInclusive' | 'roundOff'> | null,
+  billDiscount?: Discount,
+  interState: boolean = false,
+  chargeConfigs: ChargeConfig[] = [],
+): BillTotals {
+  const discounted = cart.map(item => item.discount
+    ? { ...item, discount: { ...item.discount, amount: getDiscountAmount(item.subtotal, item.discount) } }
+    : item
+  );
+  const subtotal = roundMoney(discounted.reduce((sum, item) => sum + item.subtotal, 0));
+  const itemDiscount = roundMoney(discounted.reduce((sum, item) => sum + (item.discount?.amount || 0), 0));
+  const net = roundMoney(subtotal - itemDiscount);
+  const discount = billDiscount
+    ? { ...billDiscount, amount: getDiscountAmount(net, billDiscount) }
+    : undefined;
+
+  // The last line takes the rounding left over from sharing the bill discount
+  let unallocated = discount?.amount || 0;
+  const items = discounted.map((item, index) => {
+    const lineNet = item.subtotal - (item.discount?.amount || 0);
+    const share = index === discounted.length - 1
+      ? unallocated
+      : roundMoney(net > 0 ? (discount?.amount || 0) * lineNet / net : 0);
+    unallocated = roundMoney(unallocated - share);
+
+    const { cgstRate, sgstRate } = getLineTaxRates(item, settings);
+    return {
+      ...item,
+      gstRate: item.taxExempt ? item.gstRate : cgstRate + sgstRate,
+      ...getLineTax(lineNet - share, cgstRate, sgstRate, interState, !!settings?.taxInclusive),
+    };
+  });
+
+  const discountTotal = roundMoney(itemDiscount + (discount?.amount || 0));
+  const itemsTaxable = roundMoney(items.reduce((sum, item) => sum + item.taxableValue, 0));
+  const charges = chargeConfigs
+    .map(charge => applyCharge(charge, itemsTaxable, settings, interState))
+    .filter(charge => charge.amount > 0);
+  const chargesTotal = roundMoney(charges.reduce((sum, charge) => sum + charge.amount, 0));
+  const untaxedCharges = roundMoney(charges.reduce((sum, charge) => sum + (charge.taxable ? 0 : charge.amount), 0));
+  const taxedLines = [...items, ...charges];
+
+  const taxableAmount = roundMoney(itemsTaxable + chargesTotal - untaxedCharges);
+  const cgst = roundMoney(taxedLines.reduce((sum, line) => sum + line.cgst, 0));
+  const sgst = roundMoney(taxedLines.reduce((sum, line) => sum + line.sgst, 0));
+  const igst = roundMoney(taxedLines.reduce((sum, line) => sum + (line.igst || 0), 0));
+  const beforeRounding = roundMoney(taxableAmount + untaxedCharges + cgst + sgst + igst);
+  const roundOff = getRoundOff(beforeRounding, settings?.roundOff);
+  const total = roundMoney(beforeRounding + roundOff);
+
+  const taxInclusive = !!settings?.taxInclusive;
+  return {
+    items,
+    subtotal,
+    itemDiscount,
+    discount,
+    discountTotal,
+    charges,
+    chargesTotal,
+    taxableAmount,
+    cgst,
+    sgst,
+    igst,
+    roundOff,
+    total,
+    taxInclusive,
+  };
+}
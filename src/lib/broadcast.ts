@@ -0,0 +1,51 @@
+import type { QueryClient } from '@tanstack/react-query';
+import type { StoreNames } from 'idb';
+import type { RestaurantPOSDB } from './db';
+
+export type DataStore = StoreNames<RestaurantPOSDB>;
+
+const CHANNEL_NAME = 'restaurant-pos-changes';
+
+interface ChangeMessage {
+  stores: DataStore[];
+}
+
+const listeners = new Set<(stores: DataStore[]) => void>();
+let channel: BroadcastChannel | null = null;
+
+function emit(stores: DataStore[]): void {
+  listeners.forEach(listener => listener(stores));
+}
+
+// Opened on first use; browsers without BroadcastChannel only see their own tab's writes
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<ChangeMessage>) => emit(event.data.stores);
+  }
+  return channel;
+}
+
+// Called by db.ts once a write has committed. A channel does not deliver to
+// the tab that posts, so this tab's listeners are called directly.
+export function notifyChange(stores: DataStore[]): void {
+  if (stores.length === 0) return;
+  getChannel()?.postMessage({ stores } satisfies ChangeMessage);
+  emit(stores);
+}
+
+export function subscribeChanges(listener: (stores: DataStore[]) => void): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Refetches every query reading one of the changed stores; queries name the
+// stores they read in meta.stores (see useStoreQuery)
+export function invalidateOnChange(queryClient: QueryClient): () => void {
+  return subscribeChanges(stores => {
+    queryClient.invalidateQueries({
+      predicate: query => ((query.meta?.stores as DataStore[] | undefined) || []).some(store => stores.includes(store)),
+    });
+  });
+}
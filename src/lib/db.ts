@@ -1,7 +1,40 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { User, MenuItem, Bill, AppSettings } from '@/types';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import {
+  User,
+  MenuItem,
+  Bill,
+  AppSettings,
+  DiningTable,
+  OpenOrder,
+  Kot,
+  HeldOrder,
+  ModifierGroup,
+  BillVoid,
+  BillEInvoice,
+  CreditNote,
+  NumberSeries,
+  NumberCounter,
+  OutboxEntry,
+  SyncDocument,
+  RecordRev,
+  ReplicatedStore,
+  ReplicationChange,
+  ReplicationState,
+  DailySummary,
+} from '@/types';
+import {
+  getSeriesConfig,
+  getNumberPeriod,
+  formatDocumentNumber,
+  parseDocumentNumber,
+} from './numbering';
+import { LATEST_VERSION, MigrationProgress, runMigrations } from './migrations';
+import { notifyChange } from './broadcast';
+import { rebuildDailySummaries, recordBillInSummary, recordCreditNoteInSummary } from './summaries';
+import { compareRev, latestRev } from './revisions';
+import { calculateCreditNoteTotals, canVoidBill, getCreditedTotal, getRefundableQuantities } from './refunds';
 
-interface RestaurantPOSDB extends DBSchema {
+export interface RestaurantPOSDB extends DBSchema {
   users: {
     key: string;
     value: User;
@@ -15,59 +48,645 @@ interface RestaurantPOSDB extends DBSchema {
   bills: {
     key: string;
     value: Bill;
-    indexes: { 'by-date': string; 'by-user': string; 'by-sync': number };
+    indexes: { 'by-date': string; 'by-user': string; 'by-sync': number; 'by-number': string };
   };
   settings: {
     key: string;
     value: AppSettings;
   };
+  tables: {
+    key: string;
+    value: DiningTable;
+    indexes: { 'by-section': string };
+  };
+  openOrders: {
+    key: string;
+    value: OpenOrder;
+    indexes: { 'by-table': string };
+  };
+  kots: {
+    key: string;
+    value: Kot;
+    indexes: { 'by-order': string; 'by-date': string };
+  };
+  heldOrders: {
+    key: string;
+    value: HeldOrder;
+    indexes: { 'by-date': string };
+  };
+  modifierGroups: {
+    key: string;
+    value: ModifierGroup;
+  };
+  creditNotes: {
+    key: string;
+    value: CreditNote;
+    indexes: { 'by-bill': string; 'by-date': string; 'by-number': string };
+  };
+  counters: {
+    key: string;
+    value: NumberCounter;
+  };
+  outbox: {
+    key: string;
+    value: OutboxEntry;
+    indexes: { 'by-date': string };
+  };
+  changes: {
+    key: string;
+    value: ReplicationChange;
+    indexes: { 'by-date': string };
+  };
+  replicationState: {
+    key: string;
+    value: ReplicationState;
+  };
+  dailySummaries: {
+    key: string;
+    value: DailySummary;
+  };
 }
 
-const DB_NAME = 'RestaurantPOS';
-const DB_VERSION = 1;
+export const DB_NAME = 'RestaurantPOS';
+export const DB_VERSION = LATEST_VERSION;
 
-let dbInstance: IDBPDatabase<RestaurantPOSDB> | null = null;
+let dbPromise: Promise<IDBPDatabase<RestaurantPOSDB>> | null = null;
 
-export async function getDB(): Promise<IDBPDatabase<RestaurantPOSDB>> {
-  if (dbInstance) return dbInstance;
+// Opens the database, running any pending migrations first. The startup
+// screen calls this with a progress callback; everything else uses getDB.
+export function openDatabase(
+  onProgress?: (progress: MigrationProgress) => void,
+  onBlocked?: () => void
+): Promise<IDBPDatabase<RestaurantPOSDB>> {
+  if (dbPromise) return dbPromise;
 
-  dbInstance = await openDB<RestaurantPOSDB>(DB_NAME, DB_VERSION, {
+  let migrationError: Error | null = null;
+  dbPromise = openDB<RestaurantPOSDB>(DB_NAME, DB_VERSION, {
     upgrade(db, oldVersion, newVersion, transaction) {
-      // Users store
-      if (!db.objectStoreNames.contains('users')) {
-        const userStore = db.createObjectStore('users', { keyPath: 'id' });
-        userStore.createIndex('by-username', 'username', { unique: true });
+      runMigrations(db, transaction, oldVersion, onProgress).catch((error: Error) => {
+        migrationError = error;
+        // openDB rejects with the abort below; the failure is reported from there
+        transaction.done.catch(() => undefined);
+        transaction.abort();
+      });
+    },
+    blocked() {
+      onBlocked?.();
+    },
+    // Another tab is upgrading; let go of the old version so it can proceed
+    blocking() {
+      dbPromise?.then(db => db.close());
+      dbPromise = null;
+    },
+  }).catch(error => {
+    dbPromise = null;
+    throw migrationError || error;
+  });
+
+  return dbPromise;
+}
+
+export async function getDB(): Promise<IDBPDatabase<RestaurantPOSDB>> {
+  return openDatabase();
+}
+
+export type WriteTransaction = IDBPTransaction<RestaurantPOSDB, StoreNames<RestaurantPOSDB>[], 'readwrite' | 'versionchange'>;
+
+// Stamps an edit of a replicated record with the next version and queues it
+// for the sync server, inside the transaction that saves the record
+async function stampChange(
+  tx: WriteTransaction,
+  store: ReplicatedStore,
+  recordId: string,
+  previous?: RecordRev,
+  deleted?: boolean
+): Promise<RecordRev> {
+  const state = await tx.objectStore('replicationState').get('state');
+  if (!state) throw new Error('Replication state is missing');
+
+  const version = Math.max(state.clock, previous?.version || 0) + 1;
+  const rev: RecordRev = { version, updatedAt: new Date().toISOString(), terminalId: state.terminalId };
+  await tx.objectStore('replicationState').put({ ...state, clock: version });
+  await queueChange(tx, store, recordId, rev, deleted);
+  return rev;
+}
+
+async function queueChange(tx: WriteTransaction, store: ReplicatedStore, recordId: string, rev: RecordRev, deleted?: boolean): Promise<void> {
+  await tx.objectStore('changes').put({
+    id: `${store}:${recordId}`,
+    store,
+    recordId,
+    rev,
+    deleted,
+    queuedAt: new Date().toISOString(),
+  });
+}
+
+// Queues a document for cloud sync inside the transaction that saves it
+async function enqueueSync(tx: WriteTransaction, document: SyncDocument, documentId: string): Promise<void> {
+  await tx.objectStore('outbox').put({
+    id: `${document}:${documentId}`,
+    document,
+    documentId,
+    queuedAt: new Date().toISOString(),
+  });
+}
+
+// Issues the next numbers of a series inside the caller's transaction, so a
+// number is only used up if the documents carrying it are saved with it
+async function takeNumbers(tx: WriteTransaction, series: NumberSeries, count: number, date: Date): Promise<string[]> {
+  const [settings] = await tx.objectStore('settings').getAll();
+  const config = getSeriesConfig(settings, series);
+  if (settings?.syncServerUrl?.trim() && !config.terminalCode) {
+    throw new Error('Set a terminal code in Settings before billing on a synced terminal');
+  }
+  const period = getNumberPeriod(config, date);
+  const id = `${series}:${period}`;
+
+  const counter = await tx.objectStore('counters').get(id) || { id, series, period, value: 0 };
+  const numbers = Array.from({ length: count }, (_, i) => formatDocumentNumber(config, period, counter.value + i + 1));
+  await tx.objectStore('counters').put({ ...counter, value: counter.value + count });
+  return numbers;
+}
+
+// Backup and restore
+export const BACKUP_STORES = [
+  'users',
+  'settings',
+  'menuItems',
+  'modifierGroups',
+  'tables',
+  'counters',
+  'bills',
+  'creditNotes',
+  'kots',
+  'openOrders',
+  'heldOrders',
+] as const;
+
+export type BackupStore = typeof BACKUP_STORES[number];
+export type BackupData = { [K in BackupStore]: RestaurantPOSDB[K]['value'][] };
+
+export type RestoreMode = 'merge' | 'replace';
+// What a merge does with a backup bill whose number is already used by another local bill
+export type DuplicateBillAction = 'skip' | 'renumber';
+
+export interface RestoreResult {
+  restored: Partial<Record<BackupStore, number>>;
+  skipped: Partial<Record<BackupStore, number>>;
+  renumbered: { from: string; to: string }[];
+}
+
+export async function exportAllData(): Promise<BackupData> {
+  const db = await getDB();
+  const tx = db.transaction([...BACKUP_STORES], 'readonly');
+  const entries = await Promise.all(BACKUP_STORES.map(async name => [name, await tx.objectStore(name).getAll()]));
+  await tx.done;
+  return Object.fromEntries(entries) as BackupData;
+}
+
+// Backup bills whose number is held by a different bill on this device
+export async function findDuplicateBillNumbers(bills: Bill[]): Promise<Bill[]> {
+  const db = await getDB();
+  const existing = await db.getAll('bills');
+  const idsByNumber = new Map(existing.map(bill => [bill.billNumber, bill.id]));
+  return bills.filter(bill => idsByNumber.has(bill.billNumber) && idsByNumber.get(bill.billNumber) !== bill.id);
+}
+
+// Moves counters past any restored numbers so new documents cannot reuse them
+async function bumpCounters(tx: WriteTransaction, series: NumberSeries, documents: { number: string; createdAt: string }[]): Promise<void> {
+  const [settings] = await tx.objectStore('settings').getAll();
+  const config = getSeriesConfig(settings, series);
+  const highest = new Map<string, number>();
+  for (const document of documents) {
+    const period = getNumberPeriod(config, new Date(document.createdAt));
+    const value = parseDocumentNumber(config, period, document.number);
+    if (value !== null && value > (highest.get(period) || 0)) highest.set(period, value);
+  }
+
+  for (const [period, value] of highest) {
+    const id = `${series}:${period}`;
+    const counter = await tx.objectStore('counters').get(id);
+    if (!counter || counter.value < value) {
+      await tx.objectStore('counters').put({ id, series, period, value });
+    }
+  }
+}
+
+// Restores the stores present in the backup in one transaction. Replace
+// clears those stores first; merge only adds records missing on this device
+// and keeps the local copy of anything that exists in both.
+export async function restoreData(
+  data: Partial<BackupData>,
+  mode: RestoreMode,
+  duplicateBills: DuplicateBillAction = 'skip'
+): Promise<RestoreResult> {
+  const db = await getDB();
+  const tx = db.transaction([...BACKUP_STORES, 'outbox', 'changes', 'replicationState', 'dailySummaries'], 'readwrite');
+  const state = await tx.objectStore('replicationState').get('state');
+  const result: RestoreResult = { restored: {}, skipped: {}, renumbered: [] };
+  const count = (field: 'restored' | 'skipped', store: BackupStore) => {
+    result[field][store] = (result[field][store] || 0) + 1;
+  };
+  // Restored records keep their version, or get the lowest one if they
+  // predate replication; the next sync starts over and takes the server's
+  // copy of anything it also has
+  const queueRestored = async <T extends object>(name: ReplicatedStore, id: string, record: T): Promise<T> => {
+    if (!state) return record;
+    const { rev: kept, createdAt } = record as { rev?: RecordRev; createdAt?: string };
+    const rev = kept || { version: 0, updatedAt: createdAt || new Date().toISOString(), terminalId: state.terminalId };
+    await queueChange(tx, name, id, rev);
+    return { ...record, rev };
+  };
+
+  if (mode === 'replace') {
+    for (const name of BACKUP_STORES) {
+      if (data[name]) await tx.objectStore(name).clear();
+    }
+    // Queued pushes of the cleared records would send them over the restored
+    // ones; every restored record is queued again below
+    const cleared = (store: string) => !!data[store as BackupStore];
+    for (const entry of await tx.objectStore('outbox').getAll()) {
+      if (cleared(entry.document === 'bill' ? 'bills' : 'creditNotes')) await tx.objectStore('outbox').delete(entry.id);
+    }
+    for (const change of await tx.objectStore('changes').getAll()) {
+      if (cleared(change.store)) await tx.objectStore('changes').delete(change.id);
+    }
+  }
+
+  const skippedBills = new Set<string>();
+  const billNumbers = new Map<string, string>();
+  const existingBills = await tx.objectStore('bills').getAll();
+  const idsByNumber = new Map(existingBills.map(bill => [bill.billNumber, bill.id]));
+
+  // Typed per store, so each record can only be put back where it came from
+  const restoreStore = async <S extends Exclude<BackupStore, 'counters'>>(name: S, records: RestaurantPOSDB[S]['value'][]) => {
+    const store = tx.objectStore(name);
+    for (const record of records) {
+      const id = (record as { id: string }).id;
+      if (await store.get(id)) {
+        count('skipped', name);
+        continue;
       }
 
-      // Menu items store
-      if (!db.objectStoreNames.contains('menuItems')) {
-        const menuStore = db.createObjectStore('menuItems', { keyPath: 'id' });
-        menuStore.createIndex('by-category', 'category');
-        menuStore.createIndex('by-available', 'isAvailable');
+      if (name === 'users' && await tx.objectStore('users').index('by-username').get((record as User).username)) {
+        count('skipped', name);
+        continue;
+      }
+      if (name === 'openOrders' && await tx.objectStore('openOrders').index('by-table').get((record as OpenOrder).tableId)) {
+        count('skipped', name);
+        continue;
+      }
+      if (name === 'settings' && mode === 'merge' && (await store.count()) > 0) {
+        count('skipped', name);
+        continue;
       }
 
-      // Bills store
-      if (!db.objectStoreNames.contains('bills')) {
-        const billStore = db.createObjectStore('bills', { keyPath: 'id' });
-        billStore.createIndex('by-date', 'createdAt');
-        billStore.createIndex('by-user', 'createdBy');
-        billStore.createIndex('by-sync', 'syncedToCloud');
+      if (name === 'bills') {
+        let bill = record as Bill;
+        const holder = idsByNumber.get(bill.billNumber);
+        if (holder && holder !== bill.id) {
+          if (duplicateBills === 'skip') {
+            skippedBills.add(bill.id);
+            count('skipped', name);
+            continue;
+          }
+          // From the series of the period the bill was issued in
+          const [billNumber] = await takeNumbers(tx, 'bill', 1, new Date(bill.createdAt));
+          result.renumbered.push({ from: bill.billNumber, to: billNumber });
+          billNumbers.set(bill.id, billNumber);
+          bill = { ...bill, billNumber, syncedToCloud: false };
+        }
+        idsByNumber.set(bill.billNumber, bill.id);
+        bill = await queueRestored('bills', bill.id, bill);
+        await tx.objectStore('bills').put(bill);
+        if (!bill.syncedToCloud) await enqueueSync(tx, 'bill', bill.id);
+        count('restored', name);
+        continue;
       }
 
-      // Settings store
-      if (!db.objectStoreNames.contains('settings')) {
-        db.createObjectStore('settings', { keyPath: 'id' });
+      if (name === 'creditNotes') {
+        const note = record as CreditNote;
+        if (skippedBills.has(note.billId)) {
+          count('skipped', name);
+          continue;
+        }
+        const billNumber = billNumbers.get(note.billId);
+        const restored = await queueRestored('creditNotes', note.id, billNumber ? { ...note, billNumber, syncedToCloud: false } : note);
+        await tx.objectStore('creditNotes').put(restored);
+        if (!restored.syncedToCloud) await enqueueSync(tx, 'creditNote', restored.id);
+        count('restored', name);
+        continue;
       }
-    },
-  });
 
-  return dbInstance;
+      await store.put(isReplicatedStore(name) ? await queueRestored(name, id, record) : record);
+      count('restored', name);
+    }
+  };
+
+  for (const name of BACKUP_STORES) {
+    if (name === 'counters') {
+      for (const counter of data.counters || []) {
+        const local = await tx.objectStore('counters').get(counter.id);
+        if (!local || local.value < counter.value) {
+          await tx.objectStore('counters').put(counter);
+          count('restored', 'counters');
+        } else {
+          count('skipped', 'counters');
+        }
+      }
+      // Raised before the bills so renumbered bills cannot take a number still to be restored
+      await bumpCounters(tx, 'bill', (data.bills || []).map(bill => ({ number: bill.billNumber, createdAt: bill.createdAt })));
+      await bumpCounters(tx, 'creditNote', (data.creditNotes || []).map(note => ({ number: note.creditNoteNumber, createdAt: note.createdAt })));
+      await bumpCounters(tx, 'kot', (data.kots || []).map(kot => ({ number: kot.kotNumber, createdAt: kot.createdAt })));
+      continue;
+    }
+
+    await restoreStore(name, data[name] || []);
+  }
+
+  if (state) await tx.objectStore('replicationState').put({ ...state, cursor: 0 });
+  if (data.bills || data.creditNotes) await rebuildDailySummaries(tx);
+  await tx.done;
+  notifyChange([...BACKUP_STORES.filter(name => data[name]), ...(data.bills || data.creditNotes ? ['dailySummaries' as const] : [])]);
+  return result;
+}
+
+// Multi-terminal replication
+export const REPLICATED_STORES: ReplicatedStore[] = ['users', 'settings', 'menuItems', 'modifierGroups', 'bills', 'creditNotes'];
+
+// Settings that describe this terminal rather than the shop; kept when
+// another terminal's settings are pulled
+const LOCAL_SETTINGS_FIELDS = ['numbering', 'terminalCode', 'printerFormat', 'theme', 'syncServerUrl', 'syncToken'] as const;
+
+function isReplicatedStore(name: string): name is ReplicatedStore {
+  return (REPLICATED_STORES as string[]).includes(name);
+}
+
+type ReplicatedRecord = { id: string; rev?: RecordRev };
+
+type ReplicatedValue<S extends ReplicatedStore> = RestaurantPOSDB[S]['value'];
+
+// A record version as the sync server sends it; record is null for a deletion
+export type RemoteChange = {
+  [S in ReplicatedStore]: {
+    seq: number;
+    store: S;
+    id: string;
+    rev: RecordRev;
+    record: ReplicatedValue<S> | null;
+  };
+}[ReplicatedStore];
+
+export interface PendingChange {
+  change: ReplicationChange;
+  record: ReplicatedRecord | null;
+}
+
+export async function getReplicationState(): Promise<ReplicationState> {
+  const db = await getDB();
+  const state = await db.get('replicationState', 'state');
+  if (!state) throw new Error('Replication state is missing');
+  return state;
+}
+
+export async function countPendingChanges(): Promise<number> {
+  const db = await getDB();
+  return await db.count('changes');
+}
+
+// Oldest local edits first, each with the record as it is now. Changes the
+// server has refused maxAttempts times are left out.
+export async function getPendingChanges(limit: number, maxAttempts: number): Promise<PendingChange[]> {
+  const db = await getDB();
+  const tx = db.transaction(['changes', ...REPLICATED_STORES], 'readonly');
+  const pending: PendingChange[] = [];
+  let cursor = await tx.objectStore('changes').index('by-date').openCursor();
+  while (cursor && pending.length < limit) {
+    const change = cursor.value;
+    if ((change.attempts || 0) < maxAttempts) {
+      const record = change.deleted ? null : await tx.objectStore(change.store).get(change.recordId) as ReplicatedRecord | undefined;
+      pending.push({ change, record: record || null });
+    }
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+  return pending;
+}
+
+// Changes the server has refused too often to be pushed again
+export async function getRefusedChanges(maxAttempts: number): Promise<ReplicationChange[]> {
+  const db = await getDB();
+  const changes = await db.getAll('changes');
+  return changes.filter(change => (change.attempts || 0) >= maxAttempts);
+}
+
+// Counts a push the server answered with an error, unless the record was
+// edited again while the push was in flight
+export async function recordChangeErrors(failures: { change: ReplicationChange; error: string }[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('changes', 'readwrite');
+  for (const { change, error } of failures) {
+    const current = await tx.store.get(change.id);
+    if (current && current.queuedAt === change.queuedAt) {
+      await tx.store.put({ ...current, attempts: (current.attempts || 0) + 1, lastError: error });
+    }
+  }
+  await tx.done;
+}
+
+// Drops changes the server has answered for, unless they were edited again
+// while the push was in flight
+export async function acknowledgeChanges(changes: ReplicationChange[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('changes', 'readwrite');
+  for (const change of changes) {
+    const current = await tx.store.get(change.id);
+    if (current && current.queuedAt === change.queuedAt) await tx.store.delete(change.id);
+  }
+  await tx.done;
+}
+
+// Applies records pulled from the server where they beat the local version,
+// counting a local edit still waiting to be pushed. A terminal joining the
+// shop takes the server's copy of every record both have (preferRemote), so
+// its default admin and settings never overwrite the shop's. Returns how many
+// were applied.
+export async function applyRemoteChanges(changes: RemoteChange[], cursor: number, preferRemote = false): Promise<number> {
+  const db = await getDB();
+  const tx = db.transaction(['changes', 'replicationState', 'dailySummaries', ...REPLICATED_STORES], 'readwrite');
+  const state = await tx.objectStore('replicationState').get('state');
+  if (!state) throw new Error('Replication state is missing');
+
+  const changed = new Set<StoreNames<RestaurantPOSDB>>();
+  const numberClashes = new Set(state.numberClashes);
+  let applied = 0;
+  let clock = state.clock;
+  for (const remote of changes) {
+    clock = Math.max(clock, remote.rev.version);
+    const pending = await tx.objectStore('changes').get(`${remote.store}:${remote.id}`);
+    // Drops the pending local edit when the remote version wins
+    const supersedes = async (local?: { rev?: RecordRev }): Promise<boolean> => {
+      const order = compareRev(remote.rev, latestRev(local?.rev, pending?.rev));
+      if (preferRemote ? order === 0 : order <= 0) return false;
+      if (pending) await tx.objectStore('changes').delete(pending.id);
+      return true;
+    };
+    // Kept, since the sale happened, but flagged for the terminal codes to be fixed
+    const flagNumberClash = async (store: 'bills' | 'creditNotes', documentNumber: string): Promise<void> => {
+      const other = await tx.objectStore(store).index('by-number').get(documentNumber);
+      if (other && other.id !== remote.id) numberClashes.add(documentNumber);
+    };
+
+    switch (remote.store) {
+      case 'bills': {
+        const local = await tx.objectStore('bills').get(remote.id);
+        if (!await supersedes(local)) continue;
+        if (local && remote.record && !local.void && remote.record.void) {
+          // A void made on another terminal after this one refunded the bill (or
+          // the next day) is refused; the bill goes back out un-voided
+          const creditNotes = await tx.objectStore('creditNotes').index('by-bill').getAll(local.id);
+          if (!canVoidBill(local, creditNotes, new Date(remote.record.void.voidedAt))) {
+            const rev = await stampChange(tx, 'bills', local.id, remote.rev);
+            clock = Math.max(clock, rev.version);
+            await tx.objectStore('bills').put({ ...local, rev });
+            continue;
+          }
+        }
+        await recordBillInSummary(tx, local, remote.record ?? undefined);
+        changed.add('dailySummaries');
+        if (!local && remote.record) await flagNumberClash('bills', remote.record.billNumber);
+        await storeRemoteRecord(tx, 'bills', remote.id, remote.record && { ...remote.record, rev: remote.rev });
+        break;
+      }
+      case 'creditNotes': {
+        const local = await tx.objectStore('creditNotes').get(remote.id);
+        if (!await supersedes(local)) continue;
+        if (!local && remote.record) {
+          await flagNumberClash('creditNotes', remote.record.creditNoteNumber);
+          // Credit notes never change once issued, so only a new one adds to the day
+          await recordCreditNoteInSummary(tx, remote.record, await tx.objectStore('bills').get(remote.record.billId));
+          changed.add('dailySummaries');
+        }
+        await storeRemoteRecord(tx, 'creditNotes', remote.id, remote.record && { ...remote.record, rev: remote.rev });
+        break;
+      }
+      case 'settings': {
+        const local = await tx.objectStore('settings').get(remote.id);
+        if (!await supersedes(local)) continue;
+        const record = remote.record && { ...remote.record, rev: remote.rev };
+        if (record && local) {
+          for (const field of LOCAL_SETTINGS_FIELDS) keepLocalSetting(record, local, field);
+        }
+        await storeRemoteRecord(tx, 'settings', remote.id, record);
+        break;
+      }
+      case 'users': {
+        if (!await supersedes(await tx.objectStore('users').get(remote.id))) continue;
+        if (remote.record) {
+          // Usernames are unique; of two users with the same name the newer one stays
+          const other = await tx.objectStore('users').index('by-username').get(remote.record.username);
+          if (other && other.id !== remote.id) {
+            if (!preferRemote && compareRev(remote.rev, other.rev) <= 0) continue;
+            await tx.objectStore('users').delete(other.id);
+          }
+        }
+        await storeRemoteRecord(tx, 'users', remote.id, remote.record && { ...remote.record, rev: remote.rev });
+        break;
+      }
+      case 'menuItems':
+        if (!await supersedes(await tx.objectStore('menuItems').get(remote.id))) continue;
+        await storeRemoteRecord(tx, 'menuItems', remote.id, remote.record && { ...remote.record, rev: remote.rev });
+        break;
+      case 'modifierGroups':
+        if (!await supersedes(await tx.objectStore('modifierGroups').get(remote.id))) continue;
+        await storeRemoteRecord(tx, 'modifierGroups', remote.id, remote.record && { ...remote.record, rev: remote.rev });
+        break;
+    }
+    changed.add(remote.store);
+    applied++;
+  }
+
+  await tx.objectStore('replicationState').put({ ...state, clock, cursor, numberClashes: [...numberClashes] });
+  await tx.done;
+  notifyChange([...changed]);
+  return applied;
+}
+
+// Saves a pulled record version, or deletes the record it removes
+async function storeRemoteRecord<S extends ReplicatedStore>(
+  tx: WriteTransaction,
+  store: S,
+  id: string,
+  record: ReplicatedValue<S> | null
+): Promise<void> {
+  if (record) await tx.objectStore(store).put(record);
+  else await tx.objectStore(store).delete(id);
+}
+
+function keepLocalSetting<K extends typeof LOCAL_SETTINGS_FIELDS[number]>(record: AppSettings, local: AppSettings, field: K): void {
+  record[field] = local[field];
+}
+
+// Cloud sync outbox
+export interface OutboxBatch {
+  entries: OutboxEntry[];
+  bills: Bill[];
+  creditNotes: CreditNote[];
+}
+
+// Oldest queued documents first
+export async function getOutboxBatch(limit: number): Promise<OutboxBatch> {
+  const db = await getDB();
+  const tx = db.transaction(['outbox', 'bills', 'creditNotes'], 'readonly');
+  const entries = await tx.objectStore('outbox').index('by-date').getAll(undefined, limit);
+  const batch: OutboxBatch = { entries, bills: [], creditNotes: [] };
+  for (const entry of entries) {
+    if (entry.document === 'bill') {
+      const bill = await tx.objectStore('bills').get(entry.documentId);
+      if (bill) batch.bills.push(bill);
+    } else {
+      const creditNote = await tx.objectStore('creditNotes').get(entry.documentId);
+      if (creditNote) batch.creditNotes.push(creditNote);
+    }
+  }
+  await tx.done;
+  return batch;
+}
+
+export async function countOutbox(): Promise<number> {
+  const db = await getDB();
+  return await db.count('outbox');
+}
+
+// Marks acknowledged documents as synced. A document saved again while the
+// batch was in flight has been re-queued and stays in the outbox.
+export async function acknowledgeSynced(entries: OutboxEntry[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['outbox', 'bills', 'creditNotes'], 'readwrite');
+  for (const entry of entries) {
+    const current = await tx.objectStore('outbox').get(entry.id);
+    if (!current || current.queuedAt !== entry.queuedAt) continue;
+    await tx.objectStore('outbox').delete(entry.id);
+
+    if (entry.document === 'bill') {
+      const bill = await tx.objectStore('bills').get(entry.documentId);
+      if (bill) await tx.objectStore('bills').put({ ...bill, syncedToCloud: true });
+    } else {
+      const creditNote = await tx.objectStore('creditNotes').get(entry.documentId);
+      if (creditNote) await tx.objectStore('creditNotes').put({ ...creditNote, syncedToCloud: true });
+    }
+  }
+  await tx.done;
 }
 
 // User operations
 export async function createUser(user: User): Promise<void> {
   const db = await getDB();
-  await db.add('users', user);
+  const tx = db.transaction(['users', 'changes', 'replicationState'], 'readwrite');
+  await tx.objectStore('users').add({ ...user, rev: await stampChange(tx, 'users', user.id) });
+  await tx.done;
+  notifyChange(['users']);
 }
 
 export async function getUser(id: string): Promise<User | undefined> {
@@ -87,18 +706,29 @@ export async function getAllUsers(): Promise<User[]> {
 
 export async function updateUser(user: User): Promise<void> {
   const db = await getDB();
-  await db.put('users', user);
+  const tx = db.transaction(['users', 'changes', 'replicationState'], 'readwrite');
+  await tx.objectStore('users').put({ ...user, rev: await stampChange(tx, 'users', user.id, user.rev) });
+  await tx.done;
+  notifyChange(['users']);
 }
 
 export async function deleteUser(id: string): Promise<void> {
   const db = await getDB();
-  await db.delete('users', id);
+  const tx = db.transaction(['users', 'changes', 'replicationState'], 'readwrite');
+  const user = await tx.objectStore('users').get(id);
+  await stampChange(tx, 'users', id, user?.rev, true);
+  await tx.objectStore('users').delete(id);
+  await tx.done;
+  notifyChange(['users']);
 }
 
 // Menu item operations
 export async function createMenuItem(item: MenuItem): Promise<void> {
   const db = await getDB();
-  await db.add('menuItems', item);
+  const tx = db.transaction(['menuItems', 'changes', 'replicationState'], 'readwrite');
+  await tx.objectStore('menuItems').add({ ...item, rev: await stampChange(tx, 'menuItems', item.id) });
+  await tx.done;
+  notifyChange(['menuItems']);
 }
 
 export async function getMenuItem(id: string): Promise<MenuItem | undefined> {
@@ -116,6 +746,8 @@ export async function getMenuItemsByCategory(category: string): Promise<MenuItem
   return await db.getAllFromIndex('menuItems', 'by-category', category);
 }
 
+// Booleans are not valid IndexedDB keys, so the by-available index never
+// holds anything; the menu is small enough to filter
 export async function getAvailableMenuItems(): Promise<MenuItem[]> {
   const db = await getDB();
   const allItems = await db.getAll('menuItems');
@@ -124,18 +756,75 @@ export async function getAvailableMenuItems(): Promise<MenuItem[]> {
 
 export async function updateMenuItem(item: MenuItem): Promise<void> {
   const db = await getDB();
-  await db.put('menuItems', item);
+  const tx = db.transaction(['menuItems', 'changes', 'replicationState'], 'readwrite');
+  await tx.objectStore('menuItems').put({ ...item, rev: await stampChange(tx, 'menuItems', item.id, item.rev) });
+  await tx.done;
+  notifyChange(['menuItems']);
 }
 
 export async function deleteMenuItem(id: string): Promise<void> {
   const db = await getDB();
-  await db.delete('menuItems', id);
+  const tx = db.transaction(['menuItems', 'changes', 'replicationState'], 'readwrite');
+  const item = await tx.objectStore('menuItems').get(id);
+  await stampChange(tx, 'menuItems', id, item?.rev, true);
+  await tx.objectStore('menuItems').delete(id);
+  await tx.done;
+  notifyChange(['menuItems']);
+}
+
+// Modifier group operations
+export async function getAllModifierGroups(): Promise<ModifierGroup[]> {
+  const db = await getDB();
+  return await db.getAll('modifierGroups');
+}
+
+export async function saveModifierGroup(group: ModifierGroup): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['modifierGroups', 'changes', 'replicationState'], 'readwrite');
+  await tx.objectStore('modifierGroups').put({ ...group, rev: await stampChange(tx, 'modifierGroups', group.id, group.rev) });
+  await tx.done;
+  notifyChange(['modifierGroups']);
+}
+
+export async function deleteModifierGroup(id: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['modifierGroups', 'changes', 'replicationState'], 'readwrite');
+  const group = await tx.objectStore('modifierGroups').get(id);
+  await stampChange(tx, 'modifierGroups', id, group?.rev, true);
+  await tx.objectStore('modifierGroups').delete(id);
+  await tx.done;
+  notifyChange(['modifierGroups']);
 }
 
 // Bill operations
-export async function createBill(bill: Bill): Promise<void> {
+// Bill numbers are assigned here; any billNumber on the bills passed in is replaced
+export async function createBill(bill: Bill): Promise<Bill> {
+  const [created] = await createBills([bill]);
+  return created;
+}
+
+export async function createBills(bills: Bill[]): Promise<Bill[]> {
   const db = await getDB();
-  await db.add('bills', bill);
+  const tx = db.transaction(['bills', 'counters', 'settings', 'outbox', 'changes', 'replicationState', 'dailySummaries'], 'readwrite');
+  const numbered = await addNumberedBills(tx, bills);
+  await tx.done;
+  notifyChange(['bills', 'dailySummaries']);
+  return numbered;
+}
+
+async function addNumberedBills(tx: WriteTransaction, bills: Bill[]): Promise<Bill[]> {
+  if (bills.length === 0) return [];
+  const numbers = await takeNumbers(tx, 'bill', bills.length, new Date(bills[0].createdAt));
+  const numbered: Bill[] = [];
+  for (const [i, bill] of bills.entries()) {
+    const rev = await stampChange(tx, 'bills', bill.id);
+    const saved = { ...bill, billNumber: numbers[i], rev };
+    await tx.objectStore('bills').add(saved);
+    await recordBillInSummary(tx, undefined, saved);
+    await enqueueSync(tx, 'bill', bill.id);
+    numbered.push(saved);
+  }
+  return numbered;
 }
 
 export async function getBill(id: string): Promise<Bill | undefined> {
@@ -148,32 +837,406 @@ export async function getAllBills(): Promise<Bill[]> {
   return await db.getAll('bills');
 }
 
-export async function getBillsByDateRange(startDate: string, endDate: string): Promise<Bill[]> {
+// Range of ISO timestamps over a by-date index; either end may be left open
+function dateRange(startDate?: string, endDate?: string): IDBKeyRange | undefined {
+  if (startDate && endDate) return IDBKeyRange.bound(startDate, endDate);
+  if (startDate) return IDBKeyRange.lowerBound(startDate);
+  if (endDate) return IDBKeyRange.upperBound(endDate);
+  return undefined;
+}
+
+// Oldest first, both ends inclusive
+export async function getBillsByDateRange(startDate?: string, endDate?: string): Promise<Bill[]> {
+  const db = await getDB();
+  return await db.getAllFromIndex('bills', 'by-date', dateRange(startDate, endDate));
+}
+
+// Where the previous page ended: the last bill shown
+export interface PageCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface BillPage {
+  bills: Bill[];
+  next?: PageCursor;
+}
+
+export interface CreditNotePage {
+  creditNotes: CreditNote[];
+  next?: PageCursor;
+}
+
+// One page of a store's documents, newest first, from startDate on. Records
+// the filter leaves out do not count towards the limit.
+async function getPage<S extends 'bills' | 'creditNotes'>(
+  store: S,
+  startDate: string | undefined,
+  after: PageCursor | undefined,
+  limit: number,
+  filter?: (record: RestaurantPOSDB[S]['value']) => boolean
+): Promise<{ records: RestaurantPOSDB[S]['value'][]; next?: PageCursor }> {
+  const db = await getDB();
+  const index = db.transaction(store).store.index('by-date');
+  let cursor = await index.openCursor(dateRange(startDate, after?.createdAt), 'prev');
+  const records: RestaurantPOSDB[S]['value'][] = [];
+  let last: PageCursor | undefined;
+  while (cursor && records.length < limit) {
+    // Documents saved in the same millisecond come in descending id order
+    const seen = after && cursor.value.createdAt === after.createdAt && cursor.value.id >= after.id;
+    if (!seen) {
+      last = { createdAt: cursor.value.createdAt, id: cursor.value.id };
+      if (!filter || filter(cursor.value)) records.push(cursor.value);
+    }
+    cursor = await cursor.continue();
+  }
+  return { records, next: cursor && last ? last : undefined };
+}
+
+// One page of bills, newest first, from startDate on. Pass the previous
+// page's next cursor to continue after it.
+export async function getBillsPage(
+  startDate: string | undefined,
+  after: PageCursor | undefined,
+  limit: number,
+  filter?: (bill: Bill) => boolean
+): Promise<BillPage> {
+  const { records, next } = await getPage('bills', startDate, after, limit, filter);
+  return { bills: records, next };
+}
+
+export async function getCreditNotesPage(after: PageCursor | undefined, limit: number): Promise<CreditNotePage> {
+  const { records, next } = await getPage('creditNotes', undefined, after, limit);
+  return { creditNotes: records, next };
+}
+
+// Daily totals between two local dates (yyyy-MM-dd), both inclusive
+export async function getDailySummaries(startDate?: string, endDate?: string): Promise<DailySummary[]> {
   const db = await getDB();
-  const allBills = await db.getAll('bills');
-  return allBills.filter(bill => 
-    bill.createdAt >= startDate && bill.createdAt <= endDate
-  );
+  return await db.getAll('dailySummaries', dateRange(startDate, endDate));
 }
 
 export async function getUnsyncedBills(): Promise<Bill[]> {
   const db = await getDB();
-  return await db.getAllFromIndex('bills', 'by-sync', 0);
+  const tx = db.transaction(['outbox', 'bills'], 'readonly');
+  const entries = await tx.objectStore('outbox').index('by-date').getAll();
+  const bills = await Promise.all(entries
+    .filter(entry => entry.document === 'bill')
+    .map(entry => tx.objectStore('bills').get(entry.documentId)));
+  await tx.done;
+  return bills.filter((bill): bill is Bill => !!bill);
 }
 
 export async function updateBill(bill: Bill): Promise<void> {
   const db = await getDB();
-  await db.put('bills', bill);
+  const tx = db.transaction(['bills', 'outbox', 'changes', 'replicationState', 'dailySummaries'], 'readwrite');
+  const previous = await tx.objectStore('bills').get(bill.id);
+  const rev = await stampChange(tx, 'bills', bill.id, bill.rev);
+  await tx.objectStore('bills').put({ ...bill, rev });
+  await recordBillInSummary(tx, previous, bill);
+  if (!bill.syncedToCloud) await enqueueSync(tx, 'bill', bill.id);
+  await tx.done;
+  notifyChange(['bills', 'dailySummaries']);
 }
 
-export async function getLastBillNumber(): Promise<string> {
+// Bills are never deleted; voiding only marks them
+// The void rules the Bills page shows, checked again where the void is written
+export async function voidBill(id: string, details: BillVoid): Promise<Bill> {
   const db = await getDB();
-  const bills = await db.getAll('bills');
-  if (bills.length === 0) return 'BILL0000';
-  
-  const lastBill = bills[bills.length - 1];
-  const lastNumber = parseInt(lastBill.billNumber.replace('BILL', ''));
-  return `BILL${String(lastNumber + 1).padStart(4, '0')}`;
+  const tx = db.transaction(['bills', 'creditNotes', 'users', 'outbox', 'changes', 'replicationState', 'dailySummaries'], 'readwrite');
+  const bill = await tx.objectStore('bills').get(id);
+  if (!bill) throw new Error('Bill not found');
+  if (bill.void) throw new Error(`Bill ${bill.billNumber} is already void`);
+
+  const creditNotes = await tx.objectStore('creditNotes').index('by-bill').getAll(id);
+  if (creditNotes.length > 0) throw new Error(`Bill ${bill.billNumber} has credit notes and cannot be voided`);
+  if (!canVoidBill(bill, creditNotes)) throw new Error(`Bill ${bill.billNumber} can only be voided on the day it was raised`);
+
+  const voidedBy = await tx.objectStore('users').get(details.voidedBy);
+  if (!voidedBy || !['admin', 'manager'].includes(voidedBy.role)) {
+    throw new Error('Only an admin or manager can void a bill');
+  }
+
+  const voided = { ...bill, void: details, syncedToCloud: false, rev: await stampChange(tx, 'bills', id, bill.rev) };
+  await tx.objectStore('bills').put(voided);
+  await recordBillInSummary(tx, bill, voided);
+  await enqueueSync(tx, 'bill', id);
+  await tx.done;
+  notifyChange(['bills', 'dailySummaries']);
+  return voided;
+}
+
+// The IRN is issued once per bill; a bill that has one cannot be registered again
+export async function saveBillEInvoice(id: string, einvoice: BillEInvoice): Promise<Bill> {
+  const db = await getDB();
+  const tx = db.transaction(['bills', 'outbox', 'changes', 'replicationState'], 'readwrite');
+  const bill = await tx.objectStore('bills').get(id);
+  if (!bill) throw new Error('Bill not found');
+  if (bill.void) throw new Error(`Bill ${bill.billNumber} is void`);
+  if (bill.einvoice) throw new Error(`Bill ${bill.billNumber} already has an IRN`);
+
+  const updated = { ...bill, einvoice, syncedToCloud: false, rev: await stampChange(tx, 'bills', id, bill.rev) };
+  await tx.objectStore('bills').put(updated);
+  await enqueueSync(tx, 'bill', id);
+  await tx.done;
+  notifyChange(['bills']);
+  return updated;
+}
+
+// Credit note operations
+// The credit note number is assigned here and returned on the saved note
+// Refunds the given quantities of the bill's lines (by line key). The amounts
+// are worked out here from the credit notes already issued, so two tills
+// refunding the same bill cannot both take what is left of it.
+export async function createCreditNote(
+  billId: string,
+  quantities: Record<string, number>,
+  details: Pick<CreditNote, 'id' | 'reason' | 'refundMethod' | 'createdBy' | 'createdByName' | 'createdAt'>
+): Promise<CreditNote> {
+  const db = await getDB();
+  const tx = db.transaction(['bills', 'creditNotes', 'users', 'counters', 'settings', 'outbox', 'changes', 'replicationState', 'dailySummaries'], 'readwrite');
+  const bill = await tx.objectStore('bills').get(billId);
+  if (!bill) throw new Error('Bill not found');
+  if (bill.void) throw new Error(`Bill ${bill.billNumber} is void`);
+
+  const createdBy = await tx.objectStore('users').get(details.createdBy);
+  if (!createdBy || !['admin', 'manager'].includes(createdBy.role)) {
+    throw new Error('Only an admin or manager can issue a credit note');
+  }
+
+  const existing = await tx.objectStore('creditNotes').index('by-bill').getAll(billId);
+  const refundable = getRefundableQuantities(bill, existing);
+  for (const [key, quantity] of Object.entries(quantities)) {
+    if (quantity < 0 || quantity > (refundable[key] || 0)) {
+      throw new Error(`Refund quantities exceed what is left on bill ${bill.billNumber}`);
+    }
+  }
+  const totals = calculateCreditNoteTotals(bill, quantities, existing);
+  if (totals.items.length === 0) throw new Error('Select at least one item to refund');
+  if (getCreditedTotal(existing) + totals.total > bill.total + 0.01) {
+    throw new Error(`Refunds cannot exceed the total of bill ${bill.billNumber}`);
+  }
+
+  const [creditNoteNumber] = await takeNumbers(tx, 'creditNote', 1, new Date(details.createdAt));
+  const numbered: CreditNote = {
+    ...details,
+    ...totals,
+    creditNoteNumber,
+    billId,
+    billNumber: bill.billNumber,
+    syncedToCloud: false,
+    rev: await stampChange(tx, 'creditNotes', details.id),
+  };
+  await tx.objectStore('creditNotes').add(numbered);
+  await recordCreditNoteInSummary(tx, numbered, bill);
+  await enqueueSync(tx, 'creditNote', numbered.id);
+  await tx.done;
+  notifyChange(['creditNotes', 'dailySummaries']);
+  return numbered;
+}
+
+export async function getCreditNotesByBill(billId: string): Promise<CreditNote[]> {
+  const db = await getDB();
+  const creditNotes = await db.getAllFromIndex('creditNotes', 'by-bill', billId);
+  return creditNotes.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Credit notes of several bills, e.g. the page of bills on screen
+export async function getCreditNotesByBills(billIds: string[]): Promise<CreditNote[]> {
+  const db = await getDB();
+  const index = db.transaction('creditNotes').store.index('by-bill');
+  const creditNotes = await Promise.all(billIds.map(id => index.getAll(id)));
+  return creditNotes.flat();
+}
+
+export async function getAllCreditNotes(): Promise<CreditNote[]> {
+  const db = await getDB();
+  return await db.getAllFromIndex('creditNotes', 'by-date');
+}
+
+export async function getCreditNotesByDateRange(startDate?: string, endDate?: string): Promise<CreditNote[]> {
+  const db = await getDB();
+  return await db.getAllFromIndex('creditNotes', 'by-date', dateRange(startDate, endDate));
+}
+
+// Numbers issued so far in a series, for the gap and duplicate check
+export async function getIssuedNumbers(series: NumberSeries): Promise<{ number: string; createdAt: string }[]> {
+  const db = await getDB();
+  switch (series) {
+    case 'bill':
+      return (await db.getAll('bills')).map(bill => ({ number: bill.billNumber, createdAt: bill.createdAt }));
+    case 'creditNote':
+      return (await db.getAll('creditNotes')).map(note => ({ number: note.creditNoteNumber, createdAt: note.createdAt }));
+    case 'kot':
+      return (await db.getAll('kots')).map(kot => ({ number: kot.kotNumber, createdAt: kot.createdAt }));
+  }
+}
+
+// Table operations
+export async function createTable(table: DiningTable): Promise<void> {
+  const db = await getDB();
+  await db.add('tables', table);
+  notifyChange(['tables']);
+}
+
+export async function getTable(id: string): Promise<DiningTable | undefined> {
+  const db = await getDB();
+  return await db.get('tables', id);
+}
+
+export async function getAllTables(): Promise<DiningTable[]> {
+  const db = await getDB();
+  const tables = await db.getAll('tables');
+  return tables.sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+export async function updateTable(table: DiningTable): Promise<void> {
+  const db = await getDB();
+  await db.put('tables', table);
+  notifyChange(['tables']);
+}
+
+export async function deleteTable(id: string): Promise<void> {
+  const db = await getDB();
+  const order = await db.getFromIndex('openOrders', 'by-table', id);
+  if (order) {
+    throw new Error('Cannot delete a table with an open order');
+  }
+  await db.delete('tables', id);
+  notifyChange(['tables']);
+}
+
+// Open order operations
+export async function getOpenOrder(id: string): Promise<OpenOrder | undefined> {
+  const db = await getDB();
+  return await db.get('openOrders', id);
+}
+
+export async function getOpenOrderByTable(tableId: string): Promise<OpenOrder | undefined> {
+  const db = await getDB();
+  return await db.getFromIndex('openOrders', 'by-table', tableId);
+}
+
+export async function getAllOpenOrders(): Promise<OpenOrder[]> {
+  const db = await getDB();
+  return await db.getAll('openOrders');
+}
+
+// Saves the running order of a table and keeps the table status in step.
+// An order without items (and nothing left to cancel in the kitchen) is
+// removed and the table is freed.
+// A new order (first saved with createdAt and updatedAt the same) may only
+// open on a table without one. Any other order must still be the table's;
+// one billed or cleared on another screen is not brought back.
+export async function saveOpenOrder(order: OpenOrder): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['openOrders', 'tables'], 'readwrite');
+  const table = await tx.objectStore('tables').get(order.tableId);
+  if (!table) {
+    throw new Error(`Table ${order.tableId} not found`);
+  }
+  const stored = await tx.objectStore('openOrders').get(order.id);
+  const isNew = !stored && order.createdAt === order.updatedAt;
+  if (isNew ? table.currentOrderId : table.currentOrderId !== order.id) {
+    throw new Error(`The order on ${table.name} was billed or changed on another screen`);
+  }
+  if (stored && stored.updatedAt > order.updatedAt) {
+    throw new Error(`The order on ${table.name} was changed on another screen`);
+  }
+
+  const now = new Date().toISOString();
+  if (order.items.length === 0 && !order.firedItems?.length) {
+    await tx.objectStore('openOrders').delete(order.id);
+    await tx.objectStore('tables').put({ ...table, status: 'free', currentOrderId: undefined, updatedAt: now });
+  } else {
+    await tx.objectStore('openOrders').put(order);
+    await tx.objectStore('tables').put({ ...table, status: 'occupied', currentOrderId: order.id, updatedAt: now });
+  }
+  await tx.done;
+  notifyChange(['openOrders', 'tables']);
+}
+
+// Turns a table's open order into one or more (split) bills in a single
+// transaction. The order must be as the caller last saw it, so two screens
+// cannot bill it twice or bill it without items added elsewhere.
+export async function settleOpenOrder(order: OpenOrder, bills: Bill[]): Promise<Bill[]> {
+  const db = await getDB();
+  const tx = db.transaction(['bills', 'openOrders', 'tables', 'counters', 'settings', 'outbox', 'changes', 'replicationState', 'dailySummaries'], 'readwrite');
+  const current = await tx.objectStore('openOrders').get(order.id);
+  if (!current) throw new Error(`The order on ${order.tableName} has already been billed`);
+  if (current.updatedAt !== order.updatedAt) throw new Error(`The order on ${order.tableName} was changed on another screen`);
+
+  const numbered = await addNumberedBills(tx, bills);
+  await tx.objectStore('openOrders').delete(order.id);
+
+  const table = await tx.objectStore('tables').get(order.tableId);
+  if (table) {
+    await tx.objectStore('tables').put({
+      ...table,
+      status: 'billed',
+      currentOrderId: undefined,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+  await tx.done;
+  notifyChange(['bills', 'dailySummaries', 'openOrders', 'tables']);
+  return numbered;
+}
+
+export async function setTableStatus(id: string, status: DiningTable['status']): Promise<void> {
+  const db = await getDB();
+  const table = await db.get('tables', id);
+  if (!table) return;
+  await db.put('tables', { ...table, status, updatedAt: new Date().toISOString() });
+  notifyChange(['tables']);
+}
+
+// KOT operations
+// The KOT number is assigned here and returned on the saved ticket
+export async function createKot(kot: Kot): Promise<Kot> {
+  const db = await getDB();
+  const tx = db.transaction(['kots', 'counters', 'settings'], 'readwrite');
+  const [kotNumber] = await takeNumbers(tx, 'kot', 1, new Date(kot.createdAt));
+  const numbered = { ...kot, kotNumber };
+  await tx.objectStore('kots').add(numbered);
+  await tx.done;
+  notifyChange(['kots']);
+  return numbered;
+}
+
+export async function getKotsByOrder(orderId: string): Promise<Kot[]> {
+  const db = await getDB();
+  const kots = await db.getAllFromIndex('kots', 'by-order', orderId);
+  return kots.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Held order operations
+export async function holdOrder(order: HeldOrder): Promise<void> {
+  const db = await getDB();
+  await db.put('heldOrders', order);
+  notifyChange(['heldOrders']);
+}
+
+export async function getHeldOrders(): Promise<HeldOrder[]> {
+  const db = await getDB();
+  return await db.getAllFromIndex('heldOrders', 'by-date');
+}
+
+// Removes and returns a held order so it can only be recalled once
+export async function recallHeldOrder(id: string): Promise<HeldOrder | undefined> {
+  const db = await getDB();
+  const tx = db.transaction('heldOrders', 'readwrite');
+  const order = await tx.store.get(id);
+  if (order) await tx.store.delete(id);
+  await tx.done;
+  notifyChange(['heldOrders']);
+  return order;
+}
+
+export async function deleteHeldOrder(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('heldOrders', id);
+  notifyChange(['heldOrders']);
 }
 
 // Settings operations
@@ -185,7 +1248,10 @@ export async function getSettings(): Promise<AppSettings | undefined> {
 
 export async function saveSettings(settings: AppSettings & { id: string }): Promise<void> {
   const db = await getDB();
-  await db.put('settings', settings);
+  const tx = db.transaction(['settings', 'changes', 'replicationState'], 'readwrite');
+  await tx.objectStore('settings').put({ ...settings, rev: await stampChange(tx, 'settings', settings.id, settings.rev) });
+  await tx.done;
+  notifyChange(['settings']);
 }
 
 // Initialize default data
@@ -292,4 +1358,21 @@ export async function initializeDefaultData(): Promise<void> {
   for (const item of sampleItems) {
     await db.add('menuItems', item);
   }
+
+  // Create a sample floor layout
+  const sampleTables: DiningTable[] = Array.from({ length: 6 }, (_, i) => ({
+    id: `table-${i + 1}`,
+    name: `T${i + 1}`,
+    section: 'Main Hall',
+    seats: i < 4 ? 4 : 6,
+    x: (i % 3) + 1,
+    y: Math.floor(i / 3) + 1,
+    status: 'free',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  }));
+
+  for (const table of sampleTables) {
+    await db.add('tables', table);
+  }
 }
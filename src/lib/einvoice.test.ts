@@ -0,0 +1,200 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppSettings, Bill, EInvoiceBuyer } from '@/types';
+import { buildEInvoice, createHttpIrpAdapter, generateEInvoice, stubIrpAdapter, validateEInvoice } from './einvoice';
+
+const buyer: EInvoiceBuyer = {
+  legalName: 'Acme Foods Pvt Ltd',
+  address: '12 MG Road,\n  Indiranagar',
+  location: 'Bengaluru',
+  pincode: '560038',
+};
+
+function einvoiceSettings(fields: Partial<AppSettings> = {}): AppSettings {
+  return {
+    shopName: 'Spice Route',
+    shopAddress: '4 Church Street',
+    shopPhone: '080-4123 4567',
+    shopGST: '29ABCDE1234F1Z5',
+    cgstRate: 2.5,
+    sgstRate: 2.5,
+    einvoice: { enabled: true, legalName: 'Spice Route Foods LLP', location: 'Bengaluru', pincode: '560001' },
+    ...fields,
+  } as AppSettings;
+}
+
+// Two thalis with a taxable service charge and an untaxed packing charge
+function b2bBill(fields: Partial<Bill> = {}): Bill {
+  return {
+    id: 'bill-1',
+    billNumber: 'BILL0001',
+    items: [{
+      menuItemId: 'item-1', name: 'Thali', price: 200, quantity: 2, subtotal: 400,
+      gstRate: 5, hsnCode: '996331', taxableValue: 400, cgst: 10, sgst: 10,
+    }],
+    charges: [
+      { chargeId: 'service', name: 'Service charge', type: 'percent', value: 10, amount: 40, taxable: true, gstRate: 5, cgst: 1, sgst: 1 },
+      { chargeId: 'packing', name: 'Packing', type: 'flat', value: 20, amount: 20, taxable: false, cgst: 0, sgst: 0 },
+    ],
+    subtotal: 400,
+    cgst: 11,
+    sgst: 11,
+    total: 482,
+    customerGstin: '29AAACB1234C1Z2',
+    payments: [{ method: 'card', amount: 482 }],
+    orderType: 'dine-in',
+    createdBy: 'user-1',
+    createdByName: 'Admin',
+    createdAt: '2025-01-15T10:00:00.000Z',
+    syncedToCloud: false,
+    ...fields,
+  };
+}
+
+function decodeQr(token: string) {
+  const [, body] = token.split('.');
+  const payload = JSON.parse(atob(body.replace(/-/g, '+').replace(/_/g, '/')));
+  return JSON.parse(payload.data);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('e-invoice payload', () => {
+  it('builds a valid intra-state invoice with charges', () => {
+    const payload = buildEInvoice(b2bBill(), einvoiceSettings(), buyer);
+
+    expect(validateEInvoice(payload)).toEqual([]);
+    expect(payload.DocDtls).toEqual({ Typ: 'INV', No: 'BILL0001', Dt: '15/01/2025' });
+    expect(payload.SellerDtls).toMatchObject({ LglNm: 'Spice Route Foods LLP', Stcd: '29', Pin: 560001, Ph: '08041234567' });
+    expect(payload.BuyerDtls).toMatchObject({ Pos: '29', Stcd: '29', Addr1: '12 MG Road, Indiranagar', Pin: 560038 });
+    expect(payload.ItemList).toEqual([
+      expect.objectContaining({ SlNo: '1', HsnCd: '996331', IsServc: 'Y', Qty: 2, AssAmt: 400, CgstAmt: 10, SgstAmt: 10, TotItemVal: 420 }),
+      expect.objectContaining({ SlNo: '2', PrdDesc: 'Service charge', HsnCd: '996331', Unit: 'OTH', AssAmt: 40, TotItemVal: 42 }),
+    ]);
+    expect(payload.ValDtls).toMatchObject({ AssVal: 440, CgstVal: 11, SgstVal: 11, IgstVal: 0, OthChrg: 20, TotInvVal: 482 });
+  });
+
+  it('charges IGST when the buyer is in another state', () => {
+    const bill = b2bBill({
+      customerGstin: '27AAACB1234C1Z2',
+      items: [{ menuItemId: 'item-1', name: 'Thali', price: 200, quantity: 2, subtotal: 400, gstRate: 5, hsnCode: '996331', taxableValue: 400, igst: 20 }],
+      charges: [],
+      cgst: 0,
+      sgst: 0,
+      igst: 20,
+      total: 420,
+    });
+
+    const payload = buildEInvoice(bill, einvoiceSettings(), buyer);
+
+    expect(validateEInvoice(payload)).toEqual([]);
+    expect(payload.BuyerDtls).toMatchObject({ Pos: '27', Stcd: '27' });
+    expect(payload.ValDtls).toMatchObject({ IgstVal: 20, CgstVal: 0, SgstVal: 0 });
+
+    const intraState = buildEInvoice(bill, einvoiceSettings({ shopGST: '27ABCDE1234F1Z5' }), buyer);
+    expect(validateEInvoice(intraState)).toContain('Intra-state supplies must be charged CGST and SGST');
+  });
+
+  it('reports what the portal would reject', () => {
+    const bill = b2bBill({ billNumber: '0042', items: [{ ...b2bBill().items[0], hsnCode: undefined }] });
+
+    const errors = validateEInvoice(buildEInvoice(bill, einvoiceSettings(), { ...buyer, pincode: '' }));
+
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^DocDtls\.No: Bill number must be/),
+      'ItemList.0.HsnCd: HSN/SAC code must be 4 to 8 digits',
+      'BuyerDtls.Pin: Invalid PIN code',
+    ]));
+  });
+});
+
+describe('IRN generation', () => {
+  it('registers a bill with the stub and returns a readable QR', async () => {
+    const einvoice = await generateEInvoice(b2bBill(), einvoiceSettings(), buyer);
+
+    expect(einvoice.irn).toMatch(/^[0-9a-f]{64}$/);
+    expect(einvoice.ackNo).toHaveLength(15);
+    expect(einvoice.buyer).toEqual(buyer);
+    expect(decodeQr(einvoice.signedQrCode)).toMatchObject({
+      SellerGstin: '29ABCDE1234F1Z5',
+      BuyerGstin: '29AAACB1234C1Z2',
+      DocNo: 'BILL0001',
+      TotInvVal: 482,
+      ItemCnt: 2,
+      MainHsnCode: '996331',
+      Irn: einvoice.irn,
+    });
+  });
+
+  it('gives the same bill the same IRN, as the portal does', async () => {
+    const payload = buildEInvoice(b2bBill(), einvoiceSettings(), buyer);
+
+    const [first, second, other] = await Promise.all([
+      stubIrpAdapter.generateIrn(payload),
+      stubIrpAdapter.generateIrn(payload),
+      stubIrpAdapter.generateIrn({ ...payload, DocDtls: { ...payload.DocDtls, No: 'BILL0002' } }),
+    ]);
+
+    expect(first.Irn).toBe(second.Irn);
+    expect(other.Irn).not.toBe(first.Irn);
+  });
+
+  it('does not send an invalid invoice', async () => {
+    const adapter = { generateIrn: vi.fn() };
+
+    await expect(generateEInvoice(b2bBill({ billNumber: '0042' }), einvoiceSettings(), buyer, adapter))
+      .rejects.toThrow(/DocDtls\.No/);
+    expect(adapter.generateIrn).not.toHaveBeenCalled();
+  });
+
+  it('posts the payload to the configured proxy', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ Irn: 'irn-1', AckNo: 112010000000001, AckDt: '2025-01-15 10:05:00', SignedQRCode: 'qr' })));
+    vi.stubGlobal('fetch', fetch);
+
+    const einvoice = await generateEInvoice(b2bBill(), einvoiceSettings(), buyer, createHttpIrpAdapter('https://gsp.example/irn'));
+
+    expect(fetch).toHaveBeenCalledWith('https://gsp.example/irn', expect.objectContaining({ method: 'POST' }));
+    expect(einvoice).toMatchObject({ irn: 'irn-1', ackNo: '112010000000001', signedQrCode: 'qr' });
+  });
+
+  it('surfaces proxy failures and incomplete responses', async () => {
+    const adapter = createHttpIrpAdapter('https://gsp.example/irn');
+    const payload = buildEInvoice(b2bBill(), einvoiceSettings(), buyer);
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Duplicate IRN', { status: 400 })));
+    await expect(adapter.generateIrn(payload)).rejects.toThrow('IRP request failed (400): Duplicate IRN');
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ AckNo: '1' }))));
+    await expect(adapter.generateIrn(payload)).rejects.toThrow('IRP response did not include an IRN');
+  });
+});
+
+describe('saving the IRN', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    // db.ts keeps the open database in module state
+    vi.resetModules();
+  });
+
+  it('stores the response on the bill and queues it for cloud sync', async () => {
+    const db = await import('./db');
+    await db.initializeDefaultData();
+    const settings = { ...(await db.getSettings())!, ...einvoiceSettings(), id: 'settings-1' };
+    await db.saveSettings(settings);
+    const [bill] = await db.createBills([b2bBill({ billNumber: '', syncedToCloud: true })]);
+    await db.acknowledgeSynced((await db.getOutboxBatch(10)).entries);
+
+    const einvoice = await generateEInvoice(bill, settings, buyer, stubIrpAdapter);
+    const saved = await db.saveBillEInvoice(bill.id, einvoice);
+
+    expect(saved.einvoice).toEqual(einvoice);
+    expect(saved.rev?.version).toBe((bill.rev?.version ?? 0) + 1);
+    expect(await db.getBill(bill.id)).toMatchObject({ einvoice: { irn: einvoice.irn }, syncedToCloud: false });
+    expect(await db.countOutbox()).toBe(1);
+    await expect(db.saveBillEInvoice(bill.id, einvoice)).rejects.toThrow(`Bill ${bill.billNumber} already has an IRN`);
+  });
+});
@@ -0,0 +1,312 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { AppSettings, Bill, BillEInvoice, EInvoiceBuyer } from '@/types';
+import { formatItemName, getLineTaxRates, roundMoney } from './billing';
+import { getFinancialYear } from './numbering';
+import { getStateCode } from './gst';
+
+const gstin = z.string().regex(/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, 'Invalid GSTIN');
+const stateCode = z.string().regex(/^\d{2}$/, 'Invalid state code');
+const pincode = z.number().int().min(100000, 'Invalid PIN code').max(999999, 'Invalid PIN code');
+const amount = z.number().min(0);
+
+// Subset of the e-invoice schema (version 1.1) that a restaurant bill fills in
+export const eInvoiceSchema = z.object({
+  Version: z.literal('1.1'),
+  TranDtls: z.object({
+    TaxSch: z.literal('GST'),
+    SupTyp: z.literal('B2B'),
+    RegRev: z.enum(['Y', 'N']),
+    IgstOnIntra: z.enum(['Y', 'N']),
+  }),
+  DocDtls: z.object({
+    Typ: z.literal('INV'),
+    No: z.string().regex(/^[A-Z1-9][A-Z0-9/-]{0,15}$/, 'Bill number must be up to 16 capital letters, digits, / or -, not starting with 0'),
+    Dt: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/),
+  }),
+  SellerDtls: z.object({
+    Gstin: gstin,
+    LglNm: z.string().min(3).max(100),
+    Addr1: z.string().min(1).max(100),
+    Loc: z.string().min(3).max(50),
+    Pin: pincode,
+    Stcd: stateCode,
+    Ph: z.string().min(6).max(12).optional(),
+    Em: z.string().email().max(100).optional(),
+  }),
+  BuyerDtls: z.object({
+    Gstin: gstin,
+    LglNm: z.string().min(3).max(100),
+    Pos: stateCode,
+    Addr1: z.string().min(1).max(100),
+    Loc: z.string().min(3).max(50),
+    Pin: pincode,
+    Stcd: stateCode,
+  }),
+  ItemList: z.array(z.object({
+    SlNo: z.string().min(1).max(6),
+    PrdDesc: z.string().min(1).max(300),
+    IsServc: z.enum(['Y', 'N']),
+    HsnCd: z.string().regex(/^\d{4,8}$/, 'HSN/SAC code must be 4 to 8 digits'),
+    Qty: amount,
+    Unit: z.string().min(3).max(8),
+    UnitPrice: amount,
+    TotAmt: amount,
+    Discount: amount,
+    AssAmt: amount,
+    GstRt: amount,
+    IgstAmt: amount,
+    CgstAmt: amount,
+    SgstAmt: amount,
+    TotItemVal: amount,
+  })).min(1).max(1000),
+  ValDtls: z.object({
+    AssVal: amount,
+    CgstVal: amount,
+    SgstVal: amount,
+    IgstVal: amount,
+    Discount: amount,
+    OthChrg: amount,
+    RndOffAmt: z.number().min(-99.99).max(99.99),
+    TotInvVal: amount,
+  }),
+});
+
+export type EInvoicePayload = z.infer<typeof eInvoiceSchema>;
+type EInvoiceItem = EInvoicePayload['ItemList'][number];
+
+export function canGenerateEInvoice(bill: Bill, settings: AppSettings | null): boolean {
+  return !!settings?.einvoice?.enabled && !!bill.customerGstin && !bill.void && !bill.einvoice;
+}
+
+// Bill lines become e-invoice items at their pre-tax value. Taxable charges
+// are part of the same composite supply, so they take the HSN of the first
+// line; charges without tax go under other charges.
+export function buildEInvoice(bill: Bill, settings: AppSettings, buyer: EInvoiceBuyer): EInvoicePayload {
+  const sellerState = getStateCode(settings.shopGST) || '';
+  const items: EInvoiceItem[] = bill.items.map((item, index) => {
+    const rate = item.taxExempt ? 0 : item.gstRate ?? getLineTaxRates(item, settings).cgstRate * 2;
+    const unitPrice = bill.taxInclusive ? Math.round(item.price * 100000 / (100 + rate)) / 1000 : item.price;
+    const totAmt = roundMoney(unitPrice * item.quantity);
+    const assAmt = item.taxableValue ?? roundMoney(item.subtotal - (item.discount?.amount || 0));
+    const igst = item.igst || 0;
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: formatItemName(item),
+      IsServc: item.hsnCode?.startsWith('99') ? 'Y' : 'N',
+      HsnCd: item.hsnCode || '',
+      Qty: item.quantity,
+      Unit: 'NOS',
+      UnitPrice: unitPrice,
+      TotAmt: totAmt,
+      Discount: Math.max(0, roundMoney(totAmt - assAmt)),
+      AssAmt: assAmt,
+      GstRt: rate,
+      IgstAmt: igst,
+      CgstAmt: item.cgst || 0,
+      SgstAmt: item.sgst || 0,
+      TotItemVal: roundMoney(assAmt + (item.cgst || 0) + (item.sgst || 0) + igst),
+    };
+  });
+
+  const principalHsn = bill.items[0]?.hsnCode || '';
+  for (const charge of (bill.charges || []).filter(charge => charge.taxable)) {
+    const igst = charge.igst || 0;
+    items.push({
+      SlNo: String(items.length + 1),
+      PrdDesc: charge.name,
+      IsServc: 'Y',
+      HsnCd: principalHsn,
+      Qty: 1,
+      Unit: 'OTH',
+      UnitPrice: charge.amount,
+      TotAmt: charge.amount,
+      Discount: 0,
+      AssAmt: charge.amount,
+      GstRt: charge.gstRate || 0,
+      IgstAmt: igst,
+      CgstAmt: charge.cgst,
+      SgstAmt: charge.sgst,
+      TotItemVal: roundMoney(charge.amount + charge.cgst + charge.sgst + igst),
+    });
+  }
+
+  const otherCharges = (bill.charges || [])
+    .filter(charge => !charge.taxable)
+    .reduce((sum, charge) => sum + charge.amount, 0);
+
+  return {
+    Version: '1.1',
+    TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+    DocDtls: {
+      Typ: 'INV',
+      No: bill.billNumber,
+      Dt: format(new Date(bill.createdAt), 'dd/MM/yyyy'),
+    },
+    SellerDtls: {
+      Gstin: settings.shopGST.trim().toUpperCase(),
+      LglNm: settings.einvoice?.legalName || settings.shopName,
+      Addr1: settings.shopAddress.replace(/\s+/g, ' ').trim().slice(0, 100),
+      Loc: settings.einvoice?.location || '',
+      Pin: parseInt(settings.einvoice?.pincode || '') || 0,
+      Stcd: sellerState,
+      Ph: settings.shopPhone?.replace(/\D/g, '') || undefined,
+      Em: settings.shopEmail || undefined,
+    },
+    BuyerDtls: {
+      Gstin: bill.customerGstin || '',
+      LglNm: buyer.legalName,
+      Pos: bill.placeOfSupply || getStateCode(bill.customerGstin) || sellerState,
+      Addr1: buyer.address.replace(/\s+/g, ' ').trim().slice(0, 100),
+      Loc: buyer.location,
+      Pin: parseInt(buyer.pincode) || 0,
+      Stcd: getStateCode(bill.customerGstin) || '',
+    },
+    ItemList: items,
+    ValDtls: {
+      AssVal: roundMoney(items.reduce((sum, item) => sum + item.AssAmt, 0)),
+      CgstVal: bill.cgst,
+      SgstVal: bill.sgst,
+      IgstVal: bill.igst || 0,
+      Discount: 0,
+      OthChrg: roundMoney(otherCharges),
+      RndOffAmt: bill.roundOff || 0,
+      TotInvVal: bill.total,
+    },
+  };
+}
+
+// Checks the payload against the schema and the value cross-checks the IRP
+// applies, returning readable messages rather than throwing
+export function validateEInvoice(payload: EInvoicePayload): string[] {
+  const result = eInvoiceSchema.safeParse(payload);
+  const errors = result.success
+    ? []
+    : result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+
+  const { ValDtls: values, ItemList: items } = payload;
+  const sum = (field: 'AssAmt' | 'CgstAmt' | 'SgstAmt' | 'IgstAmt') =>
+    roundMoney(items.reduce((total, item) => total + item[field], 0));
+  if (Math.abs(sum('AssAmt') - values.AssVal) > 1) errors.push('ValDtls.AssVal: does not match the items');
+  if (Math.abs(sum('CgstAmt') - values.CgstVal) > 1) errors.push('ValDtls.CgstVal: does not match the items');
+  if (Math.abs(sum('SgstAmt') - values.SgstVal) > 1) errors.push('ValDtls.SgstVal: does not match the items');
+  if (Math.abs(sum('IgstAmt') - values.IgstVal) > 1) errors.push('ValDtls.IgstVal: does not match the items');
+
+  const computed = values.AssVal + values.CgstVal + values.SgstVal + values.IgstVal
+    + values.OthChrg - values.Discount + values.RndOffAmt;
+  if (Math.abs(computed - values.TotInvVal) > 1) errors.push('ValDtls.TotInvVal: does not add up');
+
+  const interState = payload.BuyerDtls.Pos !== payload.SellerDtls.Stcd;
+  if (interState && values.CgstVal + values.SgstVal > 0) errors.push('Inter-state supplies must be charged IGST');
+  if (!interState && values.IgstVal > 0) errors.push('Intra-state supplies must be charged CGST and SGST');
+
+  return errors;
+}
+
+// What the IRP returns for a registered invoice
+export interface IrnResult {
+  Irn: string;
+  AckNo: string;
+  AckDt: string;
+  SignedInvoice?: string;
+  SignedQRCode: string;
+}
+
+// Sends an e-invoice to the IRP. Real portals are reached through a GSP,
+// whose authentication lives behind the adapter.
+export interface IrpAdapter {
+  generateIrn(payload: EInvoicePayload): Promise<IrnResult>;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Local stand-in for the IRP. The IRN is worked out the same way the portal
+// does it, but the QR token is unsigned and not valid for filing.
+export const stubIrpAdapter: IrpAdapter = {
+  async generateIrn(payload) {
+    const [day, month, year] = payload.DocDtls.Dt.split('/').map(Number);
+    const financialYear = getFinancialYear(new Date(year, month - 1, day));
+    const irn = await sha256Hex(`${payload.SellerDtls.Gstin}${financialYear}${payload.DocDtls.Typ}${payload.DocDtls.No}`);
+    const now = new Date();
+    const ackDate = format(now, 'yyyy-MM-dd HH:mm:ss');
+    const qrData = {
+      SellerGstin: payload.SellerDtls.Gstin,
+      BuyerGstin: payload.BuyerDtls.Gstin,
+      DocNo: payload.DocDtls.No,
+      DocTyp: payload.DocDtls.Typ,
+      DocDt: payload.DocDtls.Dt,
+      TotInvVal: payload.ValDtls.TotInvVal,
+      ItemCnt: payload.ItemList.length,
+      MainHsnCode: payload.ItemList[0]?.HsnCd,
+      Irn: irn,
+      IrnDt: ackDate,
+    };
+    return {
+      Irn: irn,
+      AckNo: String(now.getTime()).padStart(15, '0'),
+      AckDt: ackDate,
+      SignedQRCode: `${toBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${toBase64Url(JSON.stringify({ data: JSON.stringify(qrData) }))}.`,
+    };
+  },
+};
+
+// Posts the payload to a GSP proxy that handles the IRP's authentication and
+// returns the IRP response body
+export function createHttpIrpAdapter(url: string): IrpAdapter {
+  return {
+    async generateIrn(payload) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        throw new Error(`IRP request failed (${response.status}): ${await response.text()}`);
+      }
+      const result = await response.json();
+      if (!result?.Irn || !result?.SignedQRCode) {
+        throw new Error('IRP response did not include an IRN');
+      }
+      return result as IrnResult;
+    },
+  };
+}
+
+export function getIrpAdapter(settings: AppSettings): IrpAdapter {
+  const url = settings.einvoice?.irpUrl?.trim();
+  return url ? createHttpIrpAdapter(url) : stubIrpAdapter;
+}
+
+// Builds, validates and registers the e-invoice for a bill. The caller
+// stores the result on the bill.
+export async function generateEInvoice(
+  bill: Bill,
+  settings: AppSettings,
+  buyer: EInvoiceBuyer,
+  adapter: IrpAdapter = getIrpAdapter(settings)
+): Promise<BillEInvoice> {
+  const payload = buildEInvoice(bill, settings, buyer);
+  const errors = validateEInvoice(payload);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const result = await adapter.generateIrn(payload);
+  return {
+    irn: result.Irn,
+    ackNo: String(result.AckNo),
+    ackDate: result.AckDt,
+    signedQrCode: result.SignedQRCode,
+    signedInvoice: result.SignedInvoice,
+    buyer,
+    generatedAt: new Date().toISOString(),
+  };
+}
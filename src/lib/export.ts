@@ -1,47 +1,299 @@
 import * as XLSX from 'xlsx';
-import { Bill, MenuItem } from '@/types';
+import { Bill, CreditNote, MenuItem, PaymentMethod } from '@/types';
+import { formatItemName, getChargesTotal, getOrderType, getOrderTypeLabel } from './billing';
+import { getBillPayments, formatPayments } from './payments';
+import { Gstr1Sheet } from './gstr1';
+import { EInvoicePayload } from './einvoice';
+import { BackupFile } from './backup';
 
-export function exportBillsToExcel(bills: Bill[], filename: string = 'bills.xlsx'): void {
+function getMethodAmount(bill: Bill, method: PaymentMethod): number {
+  return getBillPayments(bill)
+    .filter(payment => payment.method === method)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+}
+
+function getDiscountReasons(bill: Bill): string {
+  const reasons = [bill.discount?.reason, ...bill.items.map(item => item.discount?.reason)];
+  return Array.from(new Set(reasons.filter(Boolean))).join('; ');
+}
+
+function getBillStatus(bill: Bill, creditNotes: CreditNote[]): string {
+  if (bill.void) return 'Void';
+  const credited = creditNotes
+    .filter(creditNote => creditNote.billId === bill.id)
+    .reduce((sum, creditNote) => sum + creditNote.total, 0);
+  if (credited === 0) return 'Paid';
+  return credited >= bill.total - 0.01 ? 'Refunded' : 'Partly Refunded';
+}
+
+// Voids and credit notes are exported as extra rows with negative amounts so
+// that summing a column gives the net figure.
+interface Reversal {
+  document: 'Void' | 'Credit Note';
+  number: string;
+  bill: Bill | undefined;
+  billNumber: string;
+  createdAt: string;
+  createdByName: string;
+  reason: string;
+  items: number;
+  subtotal: number;
+  discount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  charges: number;
+  roundOff: number;
+  total: number;
+  payments: Record<PaymentMethod, number>;
+}
+
+function getReversals(bills: Bill[], creditNotes: CreditNote[]): Reversal[] {
+  const voids = bills.filter(bill => bill.void).map(bill => ({
+    document: 'Void' as const,
+    number: bill.billNumber,
+    bill,
+    billNumber: bill.billNumber,
+    createdAt: bill.void.voidedAt,
+    createdByName: bill.void.voidedByName,
+    reason: bill.void.reason,
+    items: bill.items.length,
+    subtotal: -bill.subtotal,
+    discount: -(bill.discountTotal || 0),
+    cgst: -bill.cgst,
+    sgst: -bill.sgst,
+    igst: -(bill.igst || 0),
+    charges: -getChargesTotal(bill),
+    roundOff: -(bill.roundOff || 0),
+    total: -bill.total,
+    payments: {
+      cash: -getMethodAmount(bill, 'cash'),
+      card: -getMethodAmount(bill, 'card'),
+      upi: -getMethodAmount(bill, 'upi'),
+    },
+  }));
+
+  const refunds = creditNotes.map(creditNote => ({
+    document: 'Credit Note' as const,
+    number: creditNote.creditNoteNumber,
+    bill: bills.find(bill => bill.id === creditNote.billId),
+    billNumber: creditNote.billNumber,
+    createdAt: creditNote.createdAt,
+    createdByName: creditNote.createdByName,
+    reason: creditNote.reason,
+    items: creditNote.items.length,
+    subtotal: -creditNote.subtotal,
+    discount: -creditNote.discountTotal,
+    cgst: -creditNote.cgst,
+    sgst: -creditNote.sgst,
+    igst: -(creditNote.igst || 0),
+    charges: 0,
+    roundOff: -(creditNote.roundOff || 0),
+    total: -creditNote.total,
+    payments: {
+      cash: creditNote.refundMethod === 'cash' ? -creditNote.total : 0,
+      card: creditNote.refundMethod === 'card' ? -creditNote.total : 0,
+      upi: creditNote.refundMethod === 'upi' ? -creditNote.total : 0,
+    },
+  }));
+
+  return [...voids, ...refunds];
+}
+
+export function exportBillsToExcel(bills: Bill[], creditNotes: CreditNote[] = [], filename: string = 'bills.xlsx'): void {
   const data = bills.map(bill => ({
+    'Document': 'Bill',
     'Bill Number': bill.billNumber,
+    'Against Bill': '-',
     'Date': new Date(bill.createdAt).toLocaleString(),
     'Cashier': bill.createdByName,
+    'Order Type': getOrderTypeLabel(getOrderType(bill)),
+    'Delivery Address': bill.deliveryAddress || '-',
     'Customer': bill.customerName || '-',
+    'Customer GSTIN': bill.customerGstin || '-',
+    'Place of Supply': bill.placeOfSupply || '-',
+    'IRN': bill.einvoice?.irn || '-',
     'Items': bill.items.length,
     'Subtotal': bill.subtotal,
+    'Discount': bill.discountTotal || 0,
+    'Discount Reason': getDiscountReasons(bill) || '-',
+    'Charges': getChargesTotal(bill),
+    'Waived Charges': bill.waivedCharges?.join('; ') || '-',
     'CGST': bill.cgst,
     'SGST': bill.sgst,
+    'IGST': bill.igst || 0,
+    'Round Off': bill.roundOff || 0,
     'Total': bill.total,
-    'Payment': bill.paymentMethod || '-',
+    'Payment': formatPayments(getBillPayments(bill)),
+    'Cash': getMethodAmount(bill, 'cash'),
+    'Card': getMethodAmount(bill, 'card'),
+    'UPI': getMethodAmount(bill, 'upi'),
+    'Payment Ref': getBillPayments(bill).map(payment => payment.reference).filter(Boolean).join('; ') || '-',
+    'Status': getBillStatus(bill, creditNotes),
+    'Reason': '-',
     'Synced': bill.syncedToCloud ? 'Yes' : 'No',
   }));
 
-  const worksheet = XLSX.utils.json_to_sheet(data);
+  const reversalData = getReversals(bills, creditNotes).map(reversal => ({
+    'Document': reversal.document,
+    'Bill Number': reversal.number,
+    'Against Bill': reversal.billNumber,
+    'Date': new Date(reversal.createdAt).toLocaleString(),
+    'Cashier': reversal.createdByName,
+    'Order Type': reversal.bill ? getOrderTypeLabel(getOrderType(reversal.bill)) : '-',
+    'Delivery Address': '-',
+    'Customer': reversal.bill?.customerName || '-',
+    'Customer GSTIN': reversal.bill?.customerGstin || '-',
+    'Place of Supply': reversal.bill?.placeOfSupply || '-',
+    'IRN': '-',
+    'Items': reversal.items,
+    'Subtotal': reversal.subtotal,
+    'Discount': reversal.discount,
+    'Discount Reason': '-',
+    'Charges': reversal.charges,
+    'Waived Charges': '-',
+    'CGST': reversal.cgst,
+    'SGST': reversal.sgst,
+    'IGST': reversal.igst,
+    'Round Off': reversal.roundOff,
+    'Total': reversal.total,
+    'Payment': reversal.document === 'Void' ? 'reversed' : 'refund',
+    'Cash': reversal.payments.cash,
+    'Card': reversal.payments.card,
+    'UPI': reversal.payments.upi,
+    'Payment Ref': '-',
+    'Status': reversal.document,
+    'Reason': reversal.reason,
+    'Synced': '-',
+  }));
+
+  const itemData = bills.flatMap(bill => bill.items.map(item => ({
+    'Bill Number': bill.billNumber,
+    'Date': new Date(bill.createdAt).toLocaleString(),
+    'Item': item.name,
+    'Variant': item.variantName || '-',
+    'Modifiers': item.modifiers?.map(modifier => modifier.name).join(', ') || '-',
+    'Notes': item.notes || '-',
+    'Quantity': item.quantity,
+    'Price': item.price,
+    'Amount': item.subtotal,
+    'Discount': item.discount?.amount || 0,
+    'Discount Reason': item.discount?.reason || '-',
+    'HSN/SAC': item.hsnCode || '-',
+    'GST Rate': item.taxExempt ? 'Exempt' : item.gstRate ?? '-',
+    'Taxable Value': item.taxableValue ?? '-',
+    'CGST': item.cgst ?? '-',
+    'SGST': item.sgst ?? '-',
+    'IGST': item.igst ?? '-',
+  })));
+
+  const creditNoteItemData = creditNotes.flatMap(creditNote => creditNote.items.map(item => ({
+    'Credit Note': creditNote.creditNoteNumber,
+    'Against Bill': creditNote.billNumber,
+    'Date': new Date(creditNote.createdAt).toLocaleString(),
+    'Item': formatItemName(item),
+    'Quantity': -item.quantity,
+    'Price': item.price,
+    'Amount': -item.subtotal,
+    'Reason': creditNote.reason,
+    'Refund Method': creditNote.refundMethod,
+  })));
+
+  const worksheet = XLSX.utils.json_to_sheet([...data, ...reversalData]);
   const workbook = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Bills');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(itemData), 'Bill Items');
+  if (creditNoteItemData.length > 0) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(creditNoteItemData), 'Credit Note Items');
+  }
   
   XLSX.writeFile(workbook, filename);
 }
 
-export function exportBillsToCSV(bills: Bill[], filename: string = 'bills.csv'): void {
-  const headers = ['Bill Number', 'Date', 'Cashier', 'Customer', 'Items', 'Subtotal', 'CGST', 'SGST', 'Total', 'Payment', 'Synced'];
+// One sheet per GSTR-1 table; empty tables keep their headings so the
+// workbook matches the offline tool's template
+export function exportGstr1ToExcel(sheets: Gstr1Sheet[], filename: string = 'gstr1.xlsx'): void {
+  const workbook = XLSX.utils.book_new();
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows, { header: sheet.columns }), sheet.name);
+  }
+  XLSX.writeFile(workbook, filename);
+}
+
+function toCSVValue(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportBillsToCSV(bills: Bill[], creditNotes: CreditNote[] = [], filename: string = 'bills.csv'): void {
+  const headers = ['Document', 'Bill Number', 'Against Bill', 'Date', 'Cashier', 'Order Type', 'Delivery Address', 'Customer', 'Customer GSTIN', 'Place of Supply', 'Items', 'Item Details', 'Subtotal', 'Discount', 'Discount Reason', 'Charges', 'Waived Charges', 'CGST', 'SGST', 'IGST', 'Round Off', 'Total', 'Payment', 'Cash', 'Card', 'UPI', 'Status', 'Reason', 'Synced'];
   const rows = bills.map(bill => [
+    'Bill',
     bill.billNumber,
+    '-',
     new Date(bill.createdAt).toLocaleString(),
     bill.createdByName,
+    getOrderTypeLabel(getOrderType(bill)),
+    bill.deliveryAddress || '-',
     bill.customerName || '-',
+    bill.customerGstin || '-',
+    bill.placeOfSupply || '-',
     bill.items.length,
+    bill.items.map(item => `${formatItemName(item)} x${item.quantity}`).join('; '),
     bill.subtotal,
+    bill.discountTotal || 0,
+    getDiscountReasons(bill) || '-',
+    getChargesTotal(bill),
+    bill.waivedCharges?.join('; ') || '-',
     bill.cgst,
     bill.sgst,
+    bill.igst || 0,
+    bill.roundOff || 0,
     bill.total,
-    bill.paymentMethod || '-',
+    formatPayments(getBillPayments(bill)),
+    getMethodAmount(bill, 'cash'),
+    getMethodAmount(bill, 'card'),
+    getMethodAmount(bill, 'upi'),
+    getBillStatus(bill, creditNotes),
+    '-',
     bill.syncedToCloud ? 'Yes' : 'No',
   ]);
 
+  const reversalRows = getReversals(bills, creditNotes).map(reversal => [
+    reversal.document,
+    reversal.number,
+    reversal.billNumber,
+    new Date(reversal.createdAt).toLocaleString(),
+    reversal.createdByName,
+    reversal.bill ? getOrderTypeLabel(getOrderType(reversal.bill)) : '-',
+    '-',
+    reversal.bill?.customerName || '-',
+    reversal.bill?.customerGstin || '-',
+    reversal.bill?.placeOfSupply || '-',
+    reversal.items,
+    '-',
+    reversal.subtotal,
+    reversal.discount,
+    '-',
+    reversal.charges,
+    '-',
+    reversal.cgst,
+    reversal.sgst,
+    reversal.igst,
+    reversal.roundOff,
+    reversal.total,
+    reversal.document === 'Void' ? 'reversed' : 'refund',
+    reversal.payments.cash,
+    reversal.payments.card,
+    reversal.payments.upi,
+    reversal.document,
+    reversal.reason,
+    '-',
+  ]);
+
   const csvContent = [
     headers.join(','),
-    ...rows.map(row => row.join(','))
+    ...[...rows, ...reversalRows].map(row => row.map(toCSVValue).join(','))
   ].join('\n');
 
   const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -59,6 +311,9 @@ export function exportMenuToExcel(menuItems: MenuItem[], filename: string = 'men
     'Name': item.name,
     'Category': item.category,
     'Price': item.price,
+    'Variants': item.variants?.map(variant => `${variant.name}: ${variant.price}`).join(', ') || '-',
+    'GST Rate': item.tax?.exempt ? 'Exempt' : item.tax?.gstRate ?? 'Default',
+    'HSN/SAC': item.tax?.hsnCode || '-',
     'Description': item.description || '-',
     'Available': item.isAvailable ? 'Yes' : 'No',
     'Created': new Date(item.createdAt).toLocaleString(),
@@ -71,16 +326,7 @@ export function exportMenuToExcel(menuItems: MenuItem[], filename: string = 'men
   XLSX.writeFile(workbook, filename);
 }
 
-export function exportDataBackup(bills: Bill[], menuItems: MenuItem[], filename: string = 'pos-backup.json'): void {
-  const backup = {
-    exportDate: new Date().toISOString(),
-    version: '1.0',
-    data: {
-      bills,
-      menuItems,
-    }
-  };
-
+export function exportDataBackup(backup: BackupFile, filename: string = 'pos-backup.json'): void {
   const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
@@ -89,3 +335,14 @@ export function exportDataBackup(bills: Bill[], menuItems: MenuItem[], filename:
   link.click();
   URL.revokeObjectURL(url);
 }
+
+export function exportEInvoiceJson(payload: EInvoicePayload, filename: string = 'einvoice.json'): void {
+  // The portal's bulk upload takes an array of invoices
+  const blob = new Blob([JSON.stringify([payload], null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
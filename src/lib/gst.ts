@@ -0,0 +1,63 @@
+// GST state codes, as used in the first two digits of a GSTIN
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+// State code of a GSTIN, or undefined when it does not start with a known state
+export function getStateCode(gstin?: string): string | undefined {
+  const code = gstin?.trim().slice(0, 2);
+  return GST_STATES.some(state => state.code === code) ? code : undefined;
+}
+
+export function getStateName(code?: string): string | undefined {
+  return GST_STATES.find(state => state.code === code)?.name;
+}
+
+// IGST applies when the place of supply is outside the shop's own state.
+// If the shop's state cannot be read from its GSTIN the supply is treated as local.
+export function isInterStateSupply(shopGST: string | undefined, placeOfSupply: string | undefined): boolean {
+  const shopState = getStateCode(shopGST);
+  return !!shopState && !!placeOfSupply && placeOfSupply !== shopState;
+}
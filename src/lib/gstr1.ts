@@ -0,0 +1,318 @@
+import { format } from 'date-fns';
+import { AppSettings, Bill, BillItem, CreditNote } from '@/types';
+import { GST_SLABS, roundMoney, summarizeTaxByRate, TaxRateSummary } from './billing';
+import { getStateCode, getStateName } from './gst';
+
+type Gstr1Row = Record<string, string | number>;
+
+export interface Gstr1Sheet {
+  name: string;
+  columns: string[];
+  rows: Gstr1Row[];
+}
+
+// Column headings follow the GSTR-1 offline tool's Excel template
+const B2B_COLUMNS = [
+  'GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value',
+  'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN',
+  'Rate', 'Taxable Value', 'Cess Amount',
+];
+const B2CS_COLUMNS = [
+  'Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN',
+];
+const CDNR_COLUMNS = [
+  'GSTIN/UIN of Recipient', 'Receiver Name', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply',
+  'Reverse Charge', 'Note Supply Type', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount',
+];
+const EXEMP_COLUMNS = [
+  'Description', 'Nil Rated Supplies', 'Exempted(other than nil rated/non GST supply)', 'Non-GST Supplies',
+];
+const HSN_COLUMNS = [
+  'HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value',
+  'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount',
+];
+const DOCS_COLUMNS = ['Nature of Document', 'Sr. No. From', 'Sr. No. To', 'Total Number', 'Cancelled'];
+const CANCELLED_COLUMNS = ['Bill Number', 'Bill Date', 'Bill Value', 'Voided By', 'Reason'];
+
+// Month as "YYYY-MM", the value of a month input
+export function isInMonth(date: string, month: string): boolean {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}` === month;
+}
+
+function formatReturnDate(date: string): string {
+  return format(new Date(date), 'dd-MMM-yyyy');
+}
+
+function formatPlaceOfSupply(code: string | undefined): string {
+  const name = getStateName(code);
+  return code && name ? `${code}-${name}` : '';
+}
+
+type TaxedDocument = Pick<Bill, 'items' | 'charges' | 'subtotal' | 'discountTotal' | 'taxableAmount' | 'cgst' | 'sgst' | 'igst'>;
+
+// Bills saved before per-item GST only carry bill-level tax, so their rate
+// is recovered from the tax charged and snapped to the nearest slab
+function getTaxRates(document: TaxedDocument): TaxRateSummary[] {
+  const rates = summarizeTaxByRate(document.items, document.charges);
+  if (rates.length > 0) return rates;
+
+  const taxableValue = document.taxableAmount ?? document.subtotal - (document.discountTotal || 0);
+  const tax = document.cgst + document.sgst + (document.igst || 0);
+  const charged = taxableValue > 0 ? tax * 100 / taxableValue : 0;
+  const rate = GST_SLABS.reduce((best, slab) => (Math.abs(slab - charged) < Math.abs(best - charged) ? slab : best));
+  return [{ rate, taxableValue, cgst: document.cgst, sgst: document.sgst, igst: document.igst || 0 }];
+}
+
+interface LineTax {
+  item: Pick<BillItem, 'name' | 'quantity' | 'hsnCode' | 'taxExempt'>;
+  rate: number;
+  // False for lines of legacy bills, whose tax is an estimate
+  lineTaxed: boolean;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Per-line tax of a document; legacy lines share the bill's tax by net value
+function getLineTaxes(document: TaxedDocument): LineTax[] {
+  const nets = document.items.map(item => item.subtotal - (item.discount?.amount || 0));
+  const totalNet = nets.reduce((sum, net) => sum + net, 0);
+  const taxableAmount = document.taxableAmount ?? document.subtotal - (document.discountTotal || 0);
+  const legacyRate = getTaxRates(document)[0]?.rate ?? 0;
+  return document.items.map((item, index) => {
+    if (item.taxableValue !== undefined) {
+      return {
+        item,
+        rate: item.taxExempt ? 0 : item.gstRate ?? 0,
+        lineTaxed: true,
+        taxableValue: item.taxableValue,
+        cgst: item.cgst || 0,
+        sgst: item.sgst || 0,
+        igst: item.igst || 0,
+      };
+    }
+    const share = totalNet > 0 ? nets[index] / totalNet : 0;
+    return {
+      item,
+      rate: legacyRate,
+      lineTaxed: false,
+      taxableValue: roundMoney(taxableAmount * share),
+      cgst: roundMoney(document.cgst * share),
+      sgst: roundMoney(document.sgst * share),
+      igst: roundMoney((document.igst || 0) * share),
+    };
+  });
+}
+
+// First and last number of each series, grouped by everything before the running number
+function getNumberRanges(numbers: string[], cancelled: string[] = []): Gstr1Row[] {
+  const series = new Map<string, string[]>();
+  for (const number of numbers) {
+    const stem = number.replace(/\d+$/, '');
+    series.set(stem, [...(series.get(stem) || []), number]);
+  }
+  return Array.from(series.values()).map(group => {
+    const sorted = [...group].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    return {
+      'Sr. No. From': sorted[0],
+      'Sr. No. To': sorted[sorted.length - 1],
+      'Total Number': sorted.length,
+      'Cancelled': sorted.filter(number => cancelled.includes(number)).length,
+    };
+  });
+}
+
+// Builds the GSTR-1 sheets for one month. Voided bills are reported only as
+// cancelled documents. Credit notes against unregistered customers are netted
+// off B2CS and HSN; those against registered customers go to CDNR.
+export function buildGstr1(
+  bills: Bill[],
+  creditNotes: CreditNote[],
+  settings: AppSettings,
+  month: string
+): Gstr1Sheet[] {
+  const shopState = getStateCode(settings.shopGST);
+  const monthBills = bills.filter(bill => isInMonth(bill.createdAt, month));
+  const activeBills = monthBills.filter(bill => !bill.void);
+  const monthCreditNotes = creditNotes.filter(creditNote => isInMonth(creditNote.createdAt, month));
+  const getBill = (creditNote: CreditNote) => bills.find(bill => bill.id === creditNote.billId);
+  const getPlaceOfSupply = (bill: Bill | undefined) => bill?.placeOfSupply || shopState;
+
+  const b2b: Gstr1Row[] = [];
+  const b2cs = new Map<string, { placeOfSupply: string; rate: number; taxableValue: number }>();
+  const addB2cs = (placeOfSupply: string | undefined, rate: number, taxableValue: number) => {
+    const pos = formatPlaceOfSupply(placeOfSupply);
+    const key = `${pos}|${rate}`;
+    const entry = b2cs.get(key) || { placeOfSupply: pos, rate, taxableValue: 0 };
+    b2cs.set(key, { ...entry, taxableValue: roundMoney(entry.taxableValue + taxableValue) });
+  };
+
+  for (const bill of activeBills) {
+    const rates = getTaxRates(bill).filter(rate => rate.rate > 0);
+    if (bill.customerGstin) {
+      for (const rate of rates) {
+        b2b.push({
+          'GSTIN/UIN of Recipient': bill.customerGstin,
+          'Receiver Name': bill.customerName || '',
+          'Invoice Number': bill.billNumber,
+          'Invoice date': formatReturnDate(bill.createdAt),
+          'Invoice Value': bill.total,
+          'Place Of Supply': formatPlaceOfSupply(getPlaceOfSupply(bill)),
+          'Reverse Charge': 'N',
+          'Applicable % of Tax Rate': '',
+          'Invoice Type': 'Regular B2B',
+          'E-Commerce GSTIN': '',
+          'Rate': rate.rate,
+          'Taxable Value': rate.taxableValue,
+          'Cess Amount': 0,
+        });
+      }
+    } else {
+      for (const rate of rates) {
+        addB2cs(getPlaceOfSupply(bill), rate.rate, rate.taxableValue);
+      }
+    }
+  }
+
+  const cdnr: Gstr1Row[] = [];
+  for (const creditNote of monthCreditNotes) {
+    const bill = getBill(creditNote);
+    const rates = getTaxRates(creditNote).filter(rate => rate.rate > 0);
+    if (bill?.customerGstin) {
+      for (const rate of rates) {
+        cdnr.push({
+          'GSTIN/UIN of Recipient': bill.customerGstin,
+          'Receiver Name': bill.customerName || '',
+          'Note Number': creditNote.creditNoteNumber,
+          'Note Date': formatReturnDate(creditNote.createdAt),
+          'Note Type': 'C',
+          'Place Of Supply': formatPlaceOfSupply(getPlaceOfSupply(bill)),
+          'Reverse Charge': 'N',
+          'Note Supply Type': 'Regular B2B',
+          'Note Value': creditNote.total,
+          'Applicable % of Tax Rate': '',
+          'Rate': rate.rate,
+          'Taxable Value': rate.taxableValue,
+          'Cess Amount': 0,
+        });
+      }
+    } else {
+      for (const rate of rates) {
+        addB2cs(getPlaceOfSupply(bill), rate.rate, -rate.taxableValue);
+      }
+    }
+  }
+
+  // Nil-rated and exempt lines, split by registration and by whether the supply is inter-state
+  const exemp = new Map<string, { nil: number; exempt: number }>();
+  const hsn = new Map<string, Gstr1Row>();
+  const addLines = (lines: LineTax[], bill: Bill | undefined, sign: 1 | -1) => {
+    const interState = !!shopState && getPlaceOfSupply(bill) !== shopState;
+    for (const line of lines) {
+      const rate = line.rate;
+      if (rate === 0 && line.lineTaxed) {
+        const description = `${interState ? 'Inter' : 'Intra'}-State supplies to ${bill?.customerGstin ? 'registered' : 'unregistered'} persons`;
+        const entry = exemp.get(description) || { nil: 0, exempt: 0 };
+        exemp.set(description, line.item.taxExempt
+          ? { ...entry, exempt: roundMoney(entry.exempt + sign * line.taxableValue) }
+          : { ...entry, nil: roundMoney(entry.nil + sign * line.taxableValue) });
+      }
+
+      const code = line.item.hsnCode || '';
+      const key = `${code}|${rate}`;
+      const entry = hsn.get(key) || {
+        'HSN': code,
+        'Description': code ? line.item.name : 'Not classified',
+        // Services (SAC codes starting 99) have no unit of quantity
+        'UQC': code.startsWith('99') ? 'NA' : 'NOS-NUMBERS',
+        'Total Quantity': 0,
+        'Total Value': 0,
+        'Rate': rate,
+        'Taxable Value': 0,
+        'Integrated Tax Amount': 0,
+        'Central Tax Amount': 0,
+        'State/UT Tax Amount': 0,
+        'Cess Amount': 0,
+      };
+      const add = (field: string, value: number) => roundMoney(Number(entry[field]) + sign * value);
+      hsn.set(key, {
+        ...entry,
+        'Total Quantity': add('Total Quantity', line.item.quantity),
+        'Total Value': add('Total Value', line.taxableValue + line.cgst + line.sgst + line.igst),
+        'Taxable Value': add('Taxable Value', line.taxableValue),
+        'Integrated Tax Amount': add('Integrated Tax Amount', line.igst),
+        'Central Tax Amount': add('Central Tax Amount', line.cgst),
+        'State/UT Tax Amount': add('State/UT Tax Amount', line.sgst),
+      });
+    }
+  };
+
+  for (const bill of activeBills) {
+    addLines(getLineTaxes(bill), bill, 1);
+    // Taxable service and packaging charges are reported as their own lines
+    const chargeLines = (bill.charges || []).filter(charge => charge.taxable).map(charge => ({
+      item: { name: charge.name, quantity: 1 },
+      rate: charge.gstRate ?? 0,
+      lineTaxed: true,
+      taxableValue: charge.amount,
+      cgst: charge.cgst,
+      sgst: charge.sgst,
+      igst: charge.igst || 0,
+    }));
+    addLines(chargeLines, bill, 1);
+  }
+  for (const creditNote of monthCreditNotes) {
+    addLines(getLineTaxes(creditNote), getBill(creditNote), -1);
+  }
+
+  const voided = monthBills.filter(bill => bill.void);
+  const docs: Gstr1Row[] = [
+    ...getNumberRanges(monthBills.map(bill => bill.billNumber), voided.map(bill => bill.billNumber))
+      .map(range => ({ 'Nature of Document': 'Invoices for outward supply', ...range })),
+    ...getNumberRanges(monthCreditNotes.map(creditNote => creditNote.creditNoteNumber))
+      .map(range => ({ 'Nature of Document': 'Credit Note', ...range })),
+  ];
+
+  return [
+    { name: 'b2b', columns: B2B_COLUMNS, rows: b2b },
+    {
+      name: 'b2cs',
+      columns: B2CS_COLUMNS,
+      rows: Array.from(b2cs.values()).map(entry => ({
+        'Type': 'OE',
+        'Place Of Supply': entry.placeOfSupply,
+        'Applicable % of Tax Rate': '',
+        'Rate': entry.rate,
+        'Taxable Value': entry.taxableValue,
+        'Cess Amount': 0,
+        'E-Commerce GSTIN': '',
+      })),
+    },
+    { name: 'cdnr', columns: CDNR_COLUMNS, rows: cdnr },
+    {
+      name: 'exemp',
+      columns: EXEMP_COLUMNS,
+      rows: Array.from(exemp.entries()).map(([description, entry]) => ({
+        'Description': description,
+        'Nil Rated Supplies': entry.nil,
+        'Exempted(other than nil rated/non GST supply)': entry.exempt,
+        'Non-GST Supplies': 0,
+      })),
+    },
+    { name: 'hsn', columns: HSN_COLUMNS, rows: Array.from(hsn.values()) },
+    { name: 'docs', columns: DOCS_COLUMNS, rows: docs },
+    {
+      name: 'cancelled',
+      columns: CANCELLED_COLUMNS,
+      rows: voided.map(bill => ({
+        'Bill Number': bill.billNumber,
+        'Bill Date': formatReturnDate(bill.createdAt),
+        'Bill Value': bill.total,
+        'Voided By': bill.void?.voidedByName || '',
+        'Reason': bill.void?.reason || '',
+      })),
+    },
+  ];
+}
@@ -0,0 +1,36 @@
+import { BillItem, KotItem } from '@/types';
+import { getLineKey } from './billing';
+
+export function toKotItems(items: BillItem[]): KotItem[] {
+  return items.map(item => ({
+    lineId: getLineKey(item),
+    menuItemId: item.menuItemId,
+    name: item.name,
+    variantName: item.variantName,
+    modifiers: item.modifiers?.map(modifier => modifier.name),
+    notes: item.notes,
+    quantity: item.quantity,
+  }));
+}
+
+// Compares the current cart with what the kitchen has already received and
+// returns the quantities to fire and the quantities to cancel.
+export function diffKotItems(cart: BillItem[], fired: KotItem[]): { added: KotItem[]; cancelled: KotItem[] } {
+  const added: KotItem[] = [];
+  const cancelled: KotItem[] = [];
+
+  for (const item of toKotItems(cart)) {
+    const previous = fired.find(f => getLineKey(f) === item.lineId);
+    const delta = item.quantity - (previous?.quantity || 0);
+    if (delta > 0) added.push({ ...item, quantity: delta });
+    if (delta < 0) cancelled.push({ ...item, quantity: -delta });
+  }
+
+  for (const previous of fired) {
+    if (!cart.some(item => getLineKey(item) === getLineKey(previous))) {
+      cancelled.push({ ...previous });
+    }
+  }
+
+  return { added, cancelled };
+}
@@ -0,0 +1,205 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { openDB } from 'idb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Bill } from '@/types';
+import { DB_NAME, type RestaurantPOSDB } from './db';
+import { LATEST_VERSION, MIGRATIONS, migrateBackupData } from './migrations';
+import { getSummaryDate } from './summaries';
+
+type Records = Partial<Record<string, object[]>>;
+
+// A bill as the first releases saved it: no order type, one payment method
+function legacyBill(id: string, fields: Partial<Bill> = {}): Bill {
+  return {
+    id,
+    billNumber: 'BILL0001',
+    items: [{ menuItemId: 'item-1', name: 'Tea', price: 100, quantity: 1, subtotal: 100 }],
+    subtotal: 100,
+    cgst: 2.5,
+    sgst: 2.5,
+    total: 105,
+    paymentMethod: 'cash',
+    createdBy: 'user-1',
+    createdByName: 'Admin',
+    createdAt: '2025-01-15T10:00:00.000Z',
+    syncedToCloud: false,
+    ...fields,
+  };
+}
+
+// Builds the database a till on an older release would have, with records in it
+async function createDatabaseAt(version: number, records: Records = {}): Promise<void> {
+  const schema = await openDB<RestaurantPOSDB>(DB_NAME, version, {
+    async upgrade(db, _oldVersion, _newVersion, tx) {
+      for (const migration of MIGRATIONS.filter(step => step.version <= version)) {
+        await migration.upgrade?.(db, tx);
+      }
+    },
+  });
+  schema.close();
+  // Opened untyped, since the records have the shapes older releases saved
+  const db = await openDB(DB_NAME, version);
+  for (const [name, values] of Object.entries(records)) {
+    for (const value of values || []) await db.put(name, value);
+  }
+  db.close();
+}
+
+// Opens the database the way the app does, running the pending migrations
+async function openUpgraded() {
+  const { openDatabase } = await import('./db');
+  return openDatabase();
+}
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  // db.ts keeps the open database in module state
+  vi.resetModules();
+});
+
+describe('migrations', () => {
+  it('numbers the steps one after another', () => {
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+  });
+
+  it('creates every store on a fresh install', async () => {
+    const db = await openUpgraded();
+
+    expect(db.version).toBe(LATEST_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual([
+      'bills', 'changes', 'counters', 'creditNotes', 'dailySummaries', 'heldOrders', 'kots',
+      'menuItems', 'modifierGroups', 'openOrders', 'outbox', 'replicationState', 'settings', 'tables', 'users',
+    ]);
+    expect(await db.get('replicationState', 'state')).toMatchObject({ clock: 1, cursor: 0 });
+  });
+
+  it.each(MIGRATIONS.slice(0, -1).map(migration => migration.version))('upgrades a database from version %i', async version => {
+    await createDatabaseAt(version, { bills: [legacyBill('bill-1')] });
+
+    const db = await openUpgraded();
+
+    expect(db.version).toBe(LATEST_VERSION);
+    expect(await db.get('bills', 'bill-1')).toMatchObject({ billNumber: 'BILL0001' });
+    // From version 11 the app adds each bill to its summary as it saves it
+    expect(await db.count('dailySummaries')).toBe(version < 11 ? 1 : 0);
+  });
+
+  it('carries the counters on from the last numbers issued', async () => {
+    await createDatabaseAt(6, {
+      bills: [legacyBill('bill-1', { billNumber: 'BILL0002' }), legacyBill('bill-2', { billNumber: 'BILL0007' })],
+      creditNotes: [{ id: 'cn-1', creditNoteNumber: 'CN0003', billId: 'bill-1', createdAt: '2025-01-15T11:00:00.000Z', items: [] }],
+      kots: [{ id: 'kot-1', kotNumber: 'KOT0010', orderId: 'order-1', createdAt: '2025-01-15T09:00:00.000Z', items: [] }],
+    });
+
+    const db = await openUpgraded();
+
+    expect(await db.get('counters', 'bill:all')).toMatchObject({ value: 7 });
+    expect(await db.get('counters', 'creditNote:all')).toMatchObject({ value: 3 });
+    expect(await db.get('counters', 'kot:all')).toMatchObject({ value: 10 });
+  });
+
+  it('records the order type of existing bills from their table', async () => {
+    await createDatabaseAt(7, {
+      bills: [legacyBill('bill-1', { tableId: 'table-1' }), legacyBill('bill-2'), legacyBill('bill-3', { orderType: 'delivery' })],
+    });
+
+    const db = await openUpgraded();
+
+    expect((await db.get('bills', 'bill-1'))?.orderType).toBe('dine-in');
+    expect((await db.get('bills', 'bill-2'))?.orderType).toBe('takeaway');
+    expect((await db.get('bills', 'bill-3'))?.orderType).toBe('delivery');
+  });
+
+  it('queues unsynced bills and credit notes for cloud sync', async () => {
+    await createDatabaseAt(8, {
+      bills: [legacyBill('bill-1'), legacyBill('bill-2', { syncedToCloud: true })],
+      creditNotes: [{ id: 'cn-1', billId: 'bill-2', createdAt: '2025-01-15T11:00:00.000Z', items: [], syncedToCloud: false }],
+    });
+
+    const db = await openUpgraded();
+
+    expect((await db.getAll('outbox')).map(entry => entry.id).sort()).toEqual(['bill:bill-1', 'creditNote:cn-1']);
+  });
+
+  it('gives replicated records a first version and queues them for the sync server', async () => {
+    await createDatabaseAt(9, {
+      users: [{ id: 'user-1', username: 'admin', createdAt: '2025-01-01T00:00:00.000Z' }],
+      bills: [legacyBill('bill-1')],
+      kots: [{ id: 'kot-1', kotNumber: 'KOT0001', orderId: 'order-1', createdAt: '2025-01-15T09:00:00.000Z', items: [] }],
+    });
+
+    const db = await openUpgraded();
+    const state = await db.get('replicationState', 'state');
+
+    expect(state?.terminalId).toBeTruthy();
+    expect((await db.get('bills', 'bill-1'))?.rev).toEqual({
+      version: 1,
+      updatedAt: '2025-01-15T10:00:00.000Z',
+      terminalId: state?.terminalId,
+    });
+    expect((await db.getAll('changes')).map(change => change.id).sort()).toEqual(['bills:bill-1', 'users:user-1']);
+  });
+
+  it('queues existing credit notes and modifier groups for the sync server', async () => {
+    await createDatabaseAt(11, {
+      creditNotes: [{ id: 'cn-1', billId: 'bill-1', createdAt: '2025-01-15T11:00:00.000Z', items: [], syncedToCloud: true }],
+      modifierGroups: [{ id: 'group-1', name: 'Extras', options: [], createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-02T00:00:00.000Z' }],
+    });
+
+    const db = await openUpgraded();
+    const { terminalId } = (await db.get('replicationState', 'state'))!;
+
+    expect((await db.get('creditNotes', 'cn-1'))?.rev).toEqual({ version: 1, updatedAt: '2025-01-15T11:00:00.000Z', terminalId });
+    expect((await db.get('modifierGroups', 'group-1'))?.rev).toMatchObject({ version: 1, updatedAt: '2025-01-02T00:00:00.000Z' });
+    expect((await db.getAll('changes')).map(change => change.id).sort()).toEqual(['creditNotes:cn-1', 'modifierGroups:group-1']);
+  });
+
+  it('names the terminal without crypto.randomUUID', async () => {
+    await createDatabaseAt(9);
+    vi.spyOn(crypto, 'randomUUID').mockImplementation(() => {
+      throw new TypeError('crypto.randomUUID is not a function');
+    });
+
+    const db = await openUpgraded();
+
+    expect((await db.get('replicationState', 'state'))?.terminalId).toMatch(/^terminal-/);
+    vi.restoreAllMocks();
+  });
+
+  it('adds up existing sales and refunds into daily summaries', async () => {
+    await createDatabaseAt(10, {
+      bills: [
+        legacyBill('bill-1', { orderType: 'takeaway' }),
+        legacyBill('bill-2', { orderType: 'dine-in', tableId: 'table-1', total: 210, paymentMethod: 'upi' }),
+        legacyBill('bill-3', { orderType: 'takeaway', void: { reason: 'Mistake', voidedBy: 'user-1', voidedByName: 'Admin', voidedAt: '2025-01-15T10:30:00.000Z' } }),
+      ],
+      creditNotes: [{
+        id: 'cn-1', billId: 'bill-2', items: [], taxableAmount: 40, cgst: 1, sgst: 1, total: 42,
+        refundMethod: 'upi', createdAt: '2025-01-15T12:00:00.000Z', syncedToCloud: false,
+      }],
+    });
+
+    const db = await openUpgraded();
+    const summary = await db.get('dailySummaries', getSummaryDate('2025-01-15T10:00:00.000Z'));
+
+    expect(summary).toMatchObject({
+      bills: 2,
+      voided: 1,
+      sales: 315,
+      refunds: 42,
+      payments: { cash: 105, card: 0, upi: 210 },
+      refundPayments: { cash: 0, card: 0, upi: 42 },
+      orderTypes: {
+        takeaway: { bills: 1, sales: 105, refunds: 0 },
+        'dine-in': { bills: 1, sales: 210, refunds: 42 },
+      },
+    });
+  });
+
+  it('brings records from an old backup up to date', () => {
+    const data = migrateBackupData({ bills: [legacyBill('bill-1', { tableId: 'table-1' })] }, 7);
+
+    expect(data.bills?.[0].orderType).toBe('dine-in');
+  });
+});
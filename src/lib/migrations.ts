@@ -0,0 +1,272 @@
+import { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { NumberSeries, RecordRev, ReplicatedStore } from '@/types';
+import type { BackupData, BackupStore, RestaurantPOSDB } from './db';
+import { DEFAULT_NUMBER_SERIES, parseDocumentNumber } from './numbering';
+import { getOrderType } from './billing';
+import { rebuildDailySummaries } from './summaries';
+
+type StoreName = StoreNames<RestaurantPOSDB>;
+type UpgradeTransaction = IDBPTransaction<RestaurantPOSDB, StoreName[], 'versionchange'>;
+
+// Rewrites one record of a store; returns it unchanged when there is nothing to do
+type Backfill = { [K in StoreName]?: (record: RestaurantPOSDB[K]['value']) => RestaurantPOSDB[K]['value'] };
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Creates stores and indexes. Only IndexedDB requests may be awaited here,
+  // or the upgrade transaction closes underneath the migration.
+  upgrade?: (db: IDBPDatabase<RestaurantPOSDB>, tx: UpgradeTransaction) => void | Promise<void>;
+  // Also applied to records restored from backups taken before this version
+  backfill?: Backfill;
+}
+
+export interface MigrationProgress {
+  version: number;
+  description: string;
+  step: number;
+  steps: number;
+}
+
+// Carries existing data on from the last number issued before counters existed
+async function seedCounters(tx: UpgradeTransaction): Promise<void> {
+  const issued: Record<NumberSeries, string[]> = {
+    bill: (await tx.objectStore('bills').getAll()).map(bill => bill.billNumber),
+    creditNote: (await tx.objectStore('creditNotes').getAll()).map(creditNote => creditNote.creditNoteNumber),
+    kot: (await tx.objectStore('kots').getAll()).map(kot => kot.kotNumber),
+  };
+
+  for (const series of Object.keys(issued) as NumberSeries[]) {
+    const values = issued[series]
+      .map(number => parseDocumentNumber(DEFAULT_NUMBER_SERIES[series], 'all', number))
+      .filter((value): value is number => value !== null);
+    if (values.length === 0) continue;
+    await tx.objectStore('counters').put({ id: `${series}:all`, series, period: 'all', value: Math.max(...values) });
+  }
+}
+
+// Append new steps at the end with the next version number; never edit or
+// reorder a step that has shipped, since tills may already have run it
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create users, menu, bills and settings',
+    upgrade(db) {
+      const userStore = db.createObjectStore('users', { keyPath: 'id' });
+      userStore.createIndex('by-username', 'username', { unique: true });
+
+      const menuStore = db.createObjectStore('menuItems', { keyPath: 'id' });
+      menuStore.createIndex('by-category', 'category');
+      menuStore.createIndex('by-available', 'isAvailable');
+
+      const billStore = db.createObjectStore('bills', { keyPath: 'id' });
+      billStore.createIndex('by-date', 'createdAt');
+      billStore.createIndex('by-user', 'createdBy');
+      billStore.createIndex('by-sync', 'syncedToCloud');
+
+      db.createObjectStore('settings', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Add tables and open orders',
+    upgrade(db) {
+      const tableStore = db.createObjectStore('tables', { keyPath: 'id' });
+      tableStore.createIndex('by-section', 'section');
+
+      // One running order per table
+      const orderStore = db.createObjectStore('openOrders', { keyPath: 'id' });
+      orderStore.createIndex('by-table', 'tableId', { unique: true });
+    },
+  },
+  {
+    version: 3,
+    description: 'Add kitchen order tickets',
+    upgrade(db) {
+      const kotStore = db.createObjectStore('kots', { keyPath: 'id' });
+      kotStore.createIndex('by-order', 'orderId');
+      kotStore.createIndex('by-date', 'createdAt');
+    },
+  },
+  {
+    version: 4,
+    description: 'Add held orders',
+    upgrade(db) {
+      const heldStore = db.createObjectStore('heldOrders', { keyPath: 'id' });
+      heldStore.createIndex('by-date', 'heldAt');
+    },
+  },
+  {
+    version: 5,
+    description: 'Add modifier groups',
+    upgrade(db) {
+      db.createObjectStore('modifierGroups', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 6,
+    description: 'Add credit notes',
+    upgrade(db) {
+      const creditNoteStore = db.createObjectStore('creditNotes', { keyPath: 'id' });
+      creditNoteStore.createIndex('by-bill', 'billId');
+      creditNoteStore.createIndex('by-date', 'createdAt');
+    },
+  },
+  {
+    version: 7,
+    description: 'Add document number counters',
+    async upgrade(db, tx) {
+      db.createObjectStore('counters', { keyPath: 'id' });
+      await seedCounters(tx);
+    },
+  },
+  {
+    version: 8,
+    description: 'Record the order type on existing bills',
+    backfill: {
+      bills: bill => (bill.orderType ? bill : { ...bill, orderType: getOrderType(bill) }),
+    },
+  },
+  {
+    version: 9,
+    description: 'Add the cloud sync outbox',
+    async upgrade(db, tx) {
+      const outboxStore = db.createObjectStore('outbox', { keyPath: 'id' });
+      outboxStore.createIndex('by-date', 'queuedAt');
+
+      const queuedAt = new Date().toISOString();
+      for (const bill of await tx.objectStore('bills').getAll()) {
+        if (bill.syncedToCloud) continue;
+        await outboxStore.put({ id: `bill:${bill.id}`, document: 'bill', documentId: bill.id, queuedAt });
+      }
+      for (const creditNote of await tx.objectStore('creditNotes').getAll()) {
+        if (creditNote.syncedToCloud) continue;
+        await outboxStore.put({ id: `creditNote:${creditNote.id}`, document: 'creditNote', documentId: creditNote.id, queuedAt });
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Prepare records for multi-terminal sync',
+    async upgrade(db, tx) {
+      const changeStore = db.createObjectStore('changes', { keyPath: 'id' });
+      changeStore.createIndex('by-date', 'queuedAt');
+      db.createObjectStore('replicationState', { keyPath: 'id' });
+
+      // crypto.randomUUID is missing when the app is served over plain http
+      const terminalId = `terminal-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+      await tx.objectStore('replicationState').put({ id: 'state', terminalId, clock: 1, cursor: 0 });
+
+      // Existing records get a first version so they are pushed once sync is set up
+      const queuedAt = new Date().toISOString();
+      const stores: ReplicatedStore[] = ['users', 'settings', 'menuItems', 'bills'];
+      for (const name of stores) {
+        let cursor = await tx.objectStore(name).openCursor();
+        while (cursor) {
+          const record = cursor.value as { id: string; createdAt?: string; updatedAt?: string };
+          const rev: RecordRev = { version: 1, updatedAt: record.updatedAt || record.createdAt || queuedAt, terminalId };
+          await cursor.update({ ...cursor.value, rev });
+          await changeStore.put({ id: `${name}:${record.id}`, store: name, recordId: record.id, rev, queuedAt });
+          cursor = await cursor.continue();
+        }
+      }
+    },
+  },
+  {
+    version: 11,
+    description: 'Add daily sales summaries',
+    async upgrade(db, tx) {
+      db.createObjectStore('dailySummaries', { keyPath: 'id' });
+      await rebuildDailySummaries(tx);
+    },
+  },
+  {
+    version: 12,
+    description: 'Replicate credit notes and modifier groups',
+    async upgrade(_db, tx) {
+      const state = await tx.objectStore('replicationState').get('state');
+      if (!state) return;
+
+      const queuedAt = new Date().toISOString();
+      const stores: ReplicatedStore[] = ['creditNotes', 'modifierGroups'];
+      for (const name of stores) {
+        let cursor = await tx.objectStore(name).openCursor();
+        while (cursor) {
+          const record = cursor.value as { id: string; createdAt: string; updatedAt?: string };
+          const rev: RecordRev = { version: 1, updatedAt: record.updatedAt || record.createdAt, terminalId: state.terminalId };
+          await cursor.update({ ...cursor.value, rev });
+          await tx.objectStore('changes').put({ id: `${name}:${record.id}`, store: name, recordId: record.id, rev, queuedAt });
+          cursor = await cursor.continue();
+        }
+      }
+    },
+  },
+  {
+    version: 13,
+    description: 'Index bills and credit notes by number',
+    upgrade(_db, tx) {
+      tx.objectStore('bills').createIndex('by-number', 'billNumber');
+      tx.objectStore('creditNotes').createIndex('by-number', 'creditNoteNumber');
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+async function backfillStore<K extends StoreName>(tx: UpgradeTransaction, name: K, backfill: Backfill): Promise<void> {
+  const transform = backfill[name];
+  if (!transform) return;
+  let cursor = await tx.objectStore(name).openCursor();
+  while (cursor) {
+    const updated = transform(cursor.value);
+    if (updated !== cursor.value) await cursor.update(updated);
+    cursor = await cursor.continue();
+  }
+}
+
+// Runs every step above oldVersion in order inside the upgrade transaction.
+// A failing step rejects with the step named; the caller aborts the upgrade
+// so the database stays at its old version.
+export async function runMigrations(
+  db: IDBPDatabase<RestaurantPOSDB>,
+  tx: UpgradeTransaction,
+  oldVersion: number,
+  onProgress?: (progress: MigrationProgress) => void
+): Promise<void> {
+  const pending = MIGRATIONS.filter(migration => migration.version > oldVersion);
+
+  for (const [index, migration] of pending.entries()) {
+    onProgress?.({ version: migration.version, description: migration.description, step: index + 1, steps: pending.length });
+    try {
+      await migration.upgrade?.(db, tx);
+      const { backfill } = migration;
+      for (const name of Object.keys(backfill || {}) as StoreName[]) {
+        if (backfill) await backfillStore(tx, name, backfill);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration to version ${migration.version} (${migration.description}) failed: ${reason}`);
+    }
+  }
+}
+
+// Brings records from a backup taken at an older version up to date
+export function migrateBackupData(data: Partial<BackupData>, fromVersion: number): Partial<BackupData> {
+  const migrated = { ...data };
+  for (const { version, backfill } of MIGRATIONS) {
+    if (version <= fromVersion || !backfill) continue;
+    for (const name of Object.keys(migrated) as BackupStore[]) backfillRecords(migrated, name, backfill);
+  }
+  return migrated;
+}
+
+// Applies a step's backfill to one store of a backup
+function backfillRecords<K extends BackupStore>(
+  data: { [S in K]?: RestaurantPOSDB[S]['value'][] },
+  name: K,
+  backfill: Backfill
+): void {
+  const transform = backfill[name];
+  const records = data[name];
+  if (transform && records) data[name] = records.map(record => transform(record));
+}
@@ -0,0 +1,106 @@
+import { AppSettings, NumberSeries, NumberSeriesConfig } from '@/types';
+
+export const NUMBER_SERIES: { value: NumberSeries; label: string }[] = [
+  { value: 'bill', label: 'Bills' },
+  { value: 'creditNote', label: 'Credit Notes' },
+  { value: 'kot', label: 'Kitchen Tickets' },
+];
+
+// Matches the numbers issued before series were configurable, so existing
+// data carries on from its last number
+export const DEFAULT_NUMBER_SERIES: Record<NumberSeries, NumberSeriesConfig> = {
+  bill: { prefix: 'BILL', padding: 4, resetYearly: false },
+  creditNote: { prefix: 'CN', padding: 4, resetYearly: false },
+  kot: { prefix: 'KOT', padding: 4, resetYearly: false },
+};
+
+// A terminal code fits the e-invoice document number rules: it cannot start with 0
+export const TERMINAL_CODE_PATTERN = /^[A-Z1-9][A-Z0-9]{0,3}$/;
+
+export function getSeriesConfig(settings: AppSettings | undefined | null, series: NumberSeries): NumberSeriesConfig {
+  return { ...DEFAULT_NUMBER_SERIES[series], ...settings?.numbering?.[series], terminalCode: settings?.terminalCode || undefined };
+}
+
+// Indian financial year running April to March, e.g. "2025-26"
+export function getFinancialYear(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+// Counting period of a document; series that never reset use a single period
+export function getNumberPeriod(config: NumberSeriesConfig, date: Date): string {
+  return config.resetYearly ? getFinancialYear(date) : 'all';
+}
+
+function getNumberStem(config: NumberSeriesConfig, period: string): string {
+  const terminal = config.terminalCode ? `${config.terminalCode}-` : '';
+  return config.resetYearly ? `${terminal}${config.prefix}${period}/` : `${terminal}${config.prefix}`;
+}
+
+export function formatDocumentNumber(config: NumberSeriesConfig, period: string, value: number): string {
+  return `${getNumberStem(config, period)}${String(value).padStart(config.padding, '0')}`;
+}
+
+// Sequence value of a number issued in the given period, or null when it
+// belongs to another period or format
+export function parseDocumentNumber(config: NumberSeriesConfig, period: string, documentNumber: string): number | null {
+  const stem = getNumberStem(config, period);
+  if (!documentNumber.startsWith(stem)) return null;
+
+  const digits = documentNumber.slice(stem.length);
+  return /^\d+$/.test(digits) ? parseInt(digits) : null;
+}
+
+export interface NumberingIssue {
+  period: string;
+  type: 'gap' | 'duplicate' | 'unrecognised';
+  numbers: string[];
+}
+
+// Checks issued numbers for missing or repeated values within each period.
+// Documents whose number does not match the current format are listed
+// separately rather than counted as gaps.
+export function auditDocumentNumbers(
+  documents: { number: string; createdAt: string }[],
+  config: NumberSeriesConfig
+): NumberingIssue[] {
+  const issues: NumberingIssue[] = [];
+  const periods = new Map<string, Map<number, string[]>>();
+  const unrecognised: string[] = [];
+
+  for (const document of documents) {
+    const period = getNumberPeriod(config, new Date(document.createdAt));
+    const value = parseDocumentNumber(config, period, document.number);
+    if (value === null) {
+      unrecognised.push(document.number);
+      continue;
+    }
+    const values = periods.get(period) || new Map<number, string[]>();
+    values.set(value, [...(values.get(value) || []), document.number]);
+    periods.set(period, values);
+  }
+
+  for (const [period, values] of periods) {
+    const duplicates = Array.from(values.values()).filter(numbers => numbers.length > 1);
+    if (duplicates.length > 0) {
+      issues.push({ period, type: 'duplicate', numbers: duplicates.map(numbers => numbers[0]) });
+    }
+
+    const sorted = Array.from(values.keys()).sort((a, b) => a - b);
+    const missing: string[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+      for (let value = sorted[i - 1] + 1; value < sorted[i]; value++) {
+        missing.push(formatDocumentNumber(config, period, value));
+      }
+    }
+    if (missing.length > 0) {
+      issues.push({ period, type: 'gap', numbers: missing });
+    }
+  }
+
+  if (unrecognised.length > 0) {
+    issues.push({ period: '-', type: 'unrecognised', numbers: unrecognised });
+  }
+
+  return issues;
+}
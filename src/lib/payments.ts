@@ -0,0 +1,42 @@
+import { Bill, PaymentMethod, PaymentTender } from '@/types';
+import { roundMoney } from './billing';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'upi', label: 'UPI' },
+];
+
+// Bills saved before split payments only carry a single payment method
+export function getBillPayments(bill: Bill): PaymentTender[] {
+  if (bill.payments) return bill.payments;
+  if (bill.paymentMethod) return [{ method: bill.paymentMethod, amount: bill.total }];
+  return [];
+}
+
+export function getPaidAmount(payments: PaymentTender[]): number {
+  return roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+}
+
+export function getChangeDue(payments: PaymentTender[]): number {
+  return roundMoney(payments.reduce(
+    (sum, payment) => sum + (payment.tendered ? payment.tendered - payment.amount : 0),
+    0
+  ));
+}
+
+export function formatPayments(payments: PaymentTender[]): string {
+  if (payments.length === 0) return '-';
+  if (payments.length === 1) return payments[0].method;
+  return payments.map(payment => `${payment.method} ${payment.amount.toFixed(2)}`).join(' + ');
+}
+
+export function summarizePayments(bills: Bill[]): Record<PaymentMethod, number> {
+  const summary: Record<PaymentMethod, number> = { cash: 0, card: 0, upi: 0 };
+  for (const bill of bills) {
+    for (const payment of getBillPayments(bill)) {
+      summary[payment.method] = roundMoney(summary[payment.method] + payment.amount);
+    }
+  }
+  return summary;
+}
@@ -1,6 +1,298 @@
-import { Bill, AppSettings } from '@/types';
+import QRCode from 'qrcode';
+import { Bill, AppSettings, Kot, CreditNote, BillEInvoice } from '@/types';
+import { formatItemName, formatDiscount, getOrderType, getOrderTypeLabel, summarizeTaxByRate, TaxRateSummary } from './billing';
+import { getBillPayments } from './payments';
+import { getStateName } from './gst';
 
-export function generatePrintHTML(bill: Bill, settings: AppSettings): string {
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// Names, notes and addresses are typed in by staff and customers; escape them
+// so they print as text and cannot add markup to the print window
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+function generateShopHeader(settings: AppSettings): string {
+  return `
+    <div class="header">
+      <div class="shop-name">${escapeHtml(settings.shopName)}</div>
+      <div class="shop-info">${escapeHtml(settings.shopAddress)}</div>
+      ${settings.shopGST ? `<div class="shop-info">GSTIN: ${escapeHtml(settings.shopGST)}</div>` : ''}
+      ${settings.shopPhone ? `<div class="shop-info">Tel: ${escapeHtml(settings.shopPhone)}</div>` : ''}
+    </div>
+  `;
+}
+
+function generateTaxSummary(rates: TaxRateSummary[]): string {
+  const interState = rates.some(rate => rate.igst > 0);
+  return `
+    <table class="tax-summary">
+      <tr>
+        <th>GST</th>
+        <th>Taxable</th>
+        ${interState ? '<th>IGST</th>' : '<th>CGST</th><th>SGST</th>'}
+      </tr>
+      ${rates.map(rate => `
+      <tr>
+        <td>${rate.rate}%</td>
+        <td>${rate.taxableValue.toFixed(2)}</td>
+        ${interState
+          ? `<td>${rate.igst.toFixed(2)}</td>`
+          : `<td>${rate.cgst.toFixed(2)}</td><td>${rate.sgst.toFixed(2)}</td>`}
+      </tr>
+      `).join('')}
+    </table>
+  `;
+}
+
+function generateTaxRows(
+  tax: { cgst: number; sgst: number; igst?: number; taxInclusive?: boolean },
+  settings: AppSettings,
+  rateLabels: boolean
+): string {
+  const included = tax.taxInclusive ? ' incl.' : '';
+  if (tax.igst) {
+    return `
+      <div class="total-row">
+        <span>IGST${included}:</span>
+        <span>${escapeHtml(settings.currency)}${tax.igst.toFixed(2)}</span>
+      </div>
+    `;
+  }
+  return `
+      <div class="total-row">
+        <span>CGST${rateLabels ? ` (${settings.cgstRate}%)` : ''}${included}:</span>
+        <span>${escapeHtml(settings.currency)}${tax.cgst.toFixed(2)}</span>
+      </div>
+      <div class="total-row">
+        <span>SGST${rateLabels ? ` (${settings.sgstRate}%)` : ''}${included}:</span>
+        <span>${escapeHtml(settings.currency)}${tax.sgst.toFixed(2)}</span>
+      </div>
+  `;
+}
+
+function generateRoundOffRow(roundOff: number | undefined, settings: AppSettings): string {
+  if (!roundOff) return '';
+  return `
+      <div class="total-row">
+        <span>Round off:</span>
+        <span>${roundOff > 0 ? '+' : '-'}${escapeHtml(settings.currency)}${Math.abs(roundOff).toFixed(2)}</span>
+      </div>
+  `;
+}
+
+// Drawn as an SVG so the receipt needs no image loading before it prints
+function generateQrSvg(text: string): string {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const border = 4;
+  const size = modules.size + border * 2;
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) path += `M${col + border} ${row + border}h1v1h-1z`;
+    }
+  }
+  return `<svg class="qr-code" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+}
+
+function generateEInvoiceSection(einvoice: BillEInvoice): string {
+  return `
+    <div class="einvoice">
+      <div><strong>IRN:</strong> <span class="irn">${escapeHtml(einvoice.irn)}</span></div>
+      <div><strong>Ack No:</strong> ${escapeHtml(einvoice.ackNo)}</div>
+      <div><strong>Ack Date:</strong> ${escapeHtml(einvoice.ackDate)}</div>
+      ${generateQrSvg(einvoice.signedQrCode)}
+    </div>
+  `;
+}
+
+function generateReceiptBody(bill: Bill, settings: AppSettings): string {
+  const payments = getBillPayments(bill);
+  // Bills saved before per-item GST have no line tax and show the rates from settings
+  const taxRates = summarizeTaxByRate(bill.items, bill.charges);
+
+  return `
+  <div class="receipt">
+    ${generateShopHeader(settings)}
+    ${bill.void ? `<div class="document-title">*** VOID ***</div>` : ''}
+  
+    <div class="bill-info">
+      <div><strong>Bill No:</strong> ${escapeHtml(bill.billNumber)}</div>
+      ${bill.split ? `<div><strong>Split:</strong> ${bill.split.index} of ${bill.split.count}</div>` : ''}
+      <div><strong>Date:</strong> ${new Date(bill.createdAt).toLocaleString()}</div>
+      <div><strong>Cashier:</strong> ${escapeHtml(bill.createdByName)}</div>
+      <div><strong>Order:</strong> ${getOrderTypeLabel(getOrderType(bill))}</div>
+      ${bill.tableName ? `<div><strong>Table:</strong> ${escapeHtml(bill.tableName)}</div>` : ''}
+      ${bill.pickupName ? `<div><strong>Pickup:</strong> ${escapeHtml(bill.pickupName)}</div>` : ''}
+      ${bill.deliveryAddress ? `<div><strong>Deliver to:</strong> ${escapeHtml(bill.deliveryAddress)}</div>` : ''}
+      ${bill.deliveryPerson ? `<div><strong>Delivery by:</strong> ${escapeHtml(bill.deliveryPerson)}</div>` : ''}
+      ${bill.customerName ? `<div><strong>Customer:</strong> ${escapeHtml(bill.customerName)}</div>` : ''}
+      ${bill.customerGstin ? `<div><strong>Customer GSTIN:</strong> ${escapeHtml(bill.customerGstin)}</div>` : ''}
+      ${bill.placeOfSupply ? `<div><strong>Place of Supply:</strong> ${bill.placeOfSupply} - ${getStateName(bill.placeOfSupply) || ''}</div>` : ''}
+      ${bill.kotNumbers?.length ? `<div><strong>KOT:</strong> ${escapeHtml(bill.kotNumbers.join(', '))}</div>` : ''}
+    </div>
+  
+    <div class="items">
+      <div class="item" style="font-weight: bold; border-bottom: 1px solid #000; padding-bottom: 5px;">
+        <div class="item-name">Item</div>
+        <div class="item-qty">Qty</div>
+        <div class="item-price">Price</div>
+      </div>
+      ${bill.items.map(item => `
+      <div class="item">
+        <div class="item-name">${escapeHtml(formatItemName(item))}</div>
+        <div class="item-qty">${item.quantity}</div>
+        <div class="item-price">${escapeHtml(settings.currency)}${item.subtotal.toFixed(2)}</div>
+      </div>
+      ${(item.modifiers || []).map(modifier => `
+      <div class="item-extra">+ ${escapeHtml(modifier.name)}${modifier.price ? ` (${escapeHtml(settings.currency)}${modifier.price.toFixed(2)})` : ''}</div>
+      `).join('')}
+      ${item.notes ? `<div class="item-extra">Note: ${escapeHtml(item.notes)}</div>` : ''}
+      ${item.hsnCode ? `<div class="item-extra">HSN/SAC ${escapeHtml(item.hsnCode)}${item.taxExempt ? ' (Exempt)' : ''}</div>` : ''}
+      ${item.discount ? `
+      <div class="item-extra">Disc ${escapeHtml(formatDiscount(item.discount, settings.currency))} (${escapeHtml(item.discount.reason)}): -${escapeHtml(settings.currency)}${item.discount.amount.toFixed(2)}</div>
+      ` : ''}
+      `).join('')}
+    </div>
+  
+    <div class="totals">
+      <div class="total-row">
+        <span>Subtotal:</span>
+        <span>${escapeHtml(settings.currency)}${bill.subtotal.toFixed(2)}</span>
+      </div>
+      ${bill.discountTotal && bill.discountTotal !== bill.discount?.amount ? `
+      <div class="total-row">
+        <span>Item Discounts:</span>
+        <span>-${escapeHtml(settings.currency)}${(bill.discountTotal - (bill.discount?.amount || 0)).toFixed(2)}</span>
+      </div>
+      ` : ''}
+      ${bill.discount ? `
+      <div class="total-row">
+        <span>Discount ${escapeHtml(formatDiscount(bill.discount, settings.currency))} (${escapeHtml(bill.discount.reason)}):</span>
+        <span>-${escapeHtml(settings.currency)}${bill.discount.amount.toFixed(2)}</span>
+      </div>
+      ` : ''}
+      ${(bill.charges || []).map(charge => `
+      <div class="total-row">
+        <span>${escapeHtml(charge.name)}${charge.type === 'percent' ? ` (${charge.value}%)` : ''}:</span>
+        <span>${escapeHtml(settings.currency)}${charge.amount.toFixed(2)}</span>
+      </div>
+      `).join('')}
+      ${bill.discountTotal || bill.taxInclusive || bill.charges?.length ? `
+      <div class="total-row">
+        <span>Taxable Amount:</span>
+        <span>${escapeHtml(settings.currency)}${(bill.taxableAmount ?? bill.subtotal - bill.discountTotal).toFixed(2)}</span>
+      </div>
+      ` : ''}
+      ${generateTaxRows(bill, settings, taxRates.length === 0)}
+      ${generateRoundOffRow(bill.roundOff, settings)}
+      <div class="total-row grand-total">
+        <span>GRAND TOTAL:</span>
+        <span>${escapeHtml(settings.currency)}${bill.total.toFixed(2)}</span>
+      </div>
+      ${bill.taxInclusive ? `<div class="item-extra">Prices are inclusive of GST</div>` : ''}
+    </div>
+  
+    ${taxRates.length > 0 ? generateTaxSummary(taxRates) : ''}
+  
+    ${payments.length > 0 ? `
+    <div style="margin: 10px 0;">
+      <strong>Payment:</strong>
+      ${payments.map(payment => `
+      <div class="total-row">
+        <span>${payment.method.toUpperCase()}${payment.reference ? ` (${escapeHtml(payment.reference)})` : ''}</span>
+        <span>${escapeHtml(settings.currency)}${(payment.tendered ?? payment.amount).toFixed(2)}</span>
+      </div>
+      `).join('')}
+      ${bill.changeDue ? `
+      <div class="total-row">
+        <span>Change:</span>
+        <span>${escapeHtml(settings.currency)}${bill.changeDue.toFixed(2)}</span>
+      </div>
+      ` : ''}
+    </div>
+    ` : ''}
+  
+    ${bill.notes ? `
+    <div style="margin: 10px 0; font-size: 10px;">
+      <strong>Notes:</strong> ${escapeHtml(bill.notes)}
+    </div>
+    ` : ''}
+  
+    ${bill.einvoice ? generateEInvoiceSection(bill.einvoice) : ''}
+  
+    <div class="footer">
+      <div class="thank-you">Thank You! Visit Again!</div>
+      <div style="font-size: 9px; margin-top: 5px;">
+        Powered by Restaurant POS
+      </div>
+    </div>
+  </div>
+  `;
+}
+
+function generateCreditNoteBody(creditNote: CreditNote, settings: AppSettings): string {
+  return `
+  <div class="receipt">
+    ${generateShopHeader(settings)}
+    <div class="document-title">CREDIT NOTE</div>
+  
+    <div class="bill-info">
+      <div><strong>Credit Note No:</strong> ${escapeHtml(creditNote.creditNoteNumber)}</div>
+      <div><strong>Against Bill:</strong> ${escapeHtml(creditNote.billNumber)}</div>
+      <div><strong>Date:</strong> ${new Date(creditNote.createdAt).toLocaleString()}</div>
+      <div><strong>Issued By:</strong> ${escapeHtml(creditNote.createdByName)}</div>
+      <div><strong>Reason:</strong> ${escapeHtml(creditNote.reason)}</div>
+    </div>
+  
+    <div class="items">
+      <div class="item" style="font-weight: bold; border-bottom: 1px solid #000; padding-bottom: 5px;">
+        <div class="item-name">Item</div>
+        <div class="item-qty">Qty</div>
+        <div class="item-price">Price</div>
+      </div>
+      ${creditNote.items.map(item => `
+      <div class="item">
+        <div class="item-name">${escapeHtml(formatItemName(item))}</div>
+        <div class="item-qty">${item.quantity}</div>
+        <div class="item-price">${escapeHtml(settings.currency)}${item.subtotal.toFixed(2)}</div>
+      </div>
+      `).join('')}
+    </div>
+  
+    <div class="totals">
+      <div class="total-row">
+        <span>Subtotal:</span>
+        <span>${escapeHtml(settings.currency)}${creditNote.subtotal.toFixed(2)}</span>
+      </div>
+      ${creditNote.discountTotal ? `
+      <div class="total-row">
+        <span>Discount:</span>
+        <span>-${escapeHtml(settings.currency)}${creditNote.discountTotal.toFixed(2)}</span>
+      </div>
+      <div class="total-row">
+        <span>Taxable Amount:</span>
+        <span>${escapeHtml(settings.currency)}${creditNote.taxableAmount.toFixed(2)}</span>
+      </div>
+      ` : ''}
+      ${generateTaxRows(creditNote, settings, false)}
+      ${generateRoundOffRow(creditNote.roundOff, settings)}
+      <div class="total-row grand-total">
+        <span>TOTAL REFUND:</span>
+        <span>${escapeHtml(settings.currency)}${creditNote.total.toFixed(2)}</span>
+      </div>
+      <div class="total-row">
+        <span>Refunded By:</span>
+        <span>${creditNote.refundMethod.toUpperCase()}</span>
+      </div>
+    </div>
+  
+    ${summarizeTaxByRate(creditNote.items).length > 0 ? generateTaxSummary(summarizeTaxByRate(creditNote.items)) : ''}
+  </div>
+  `;
+}
+
+function generateReceiptDocument(title: string, bodies: string[], settings: AppSettings): string {
   const width = settings.printerFormat === '58mm' ? '58mm' : '80mm';
   
   return `
@@ -8,7 +300,7 @@ export function generatePrintHTML(bill: Bill, settings: AppSettings): string {
 <html>
 <head>
   <meta charset="UTF-8">
-  <title>Bill ${bill.billNumber}</title>
+  <title>${escapeHtml(title)}</title>
   <style>
     @page {
       size: ${width} auto;
@@ -42,6 +334,13 @@ export function generatePrintHTML(bill: Bill, settings: AppSettings): string {
       margin: 2px 0;
     }
     
+    .document-title {
+      text-align: center;
+      font-size: 14px;
+      font-weight: bold;
+      margin: 5px 0;
+    }
+    
     .bill-info {
       margin: 10px 0;
       font-size: 11px;
@@ -74,6 +373,12 @@ export function generatePrintHTML(bill: Bill, settings: AppSettings): string {
       text-align: right;
     }
     
+    .item-extra {
+      font-size: 10px;
+      padding-left: 8px;
+      margin-top: -3px;
+    }
+    
     .totals {
       margin: 10px 0;
     }
@@ -104,88 +409,193 @@ export function generatePrintHTML(bill: Bill, settings: AppSettings): string {
       font-weight: bold;
       margin: 10px 0;
     }
+    
+    .tax-summary {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 10px;
+      margin: 10px 0;
+    }
+    
+    .tax-summary th,
+    .tax-summary td {
+      border-bottom: 1px dashed #000;
+      padding: 2px 0;
+      text-align: right;
+    }
+    
+    .tax-summary th:first-child,
+    .tax-summary td:first-child {
+      text-align: left;
+    }
+    
+    .einvoice {
+      margin: 10px 0;
+      font-size: 10px;
+      text-align: center;
+    }
+    
+    .einvoice .irn {
+      word-break: break-all;
+    }
+    
+    .qr-code {
+      width: 40mm;
+      height: 40mm;
+      margin-top: 5px;
+    }
+    
+    .receipt {
+      page-break-after: always;
+    }
+    
+    .receipt:last-child {
+      page-break-after: auto;
+    }
   </style>
 </head>
 <body>
-  <div class="header">
-    <div class="shop-name">${settings.shopName}</div>
-    <div class="shop-info">${settings.shopAddress}</div>
-    ${settings.shopGST ? `<div class="shop-info">GSTIN: ${settings.shopGST}</div>` : ''}
-    ${settings.shopPhone ? `<div class="shop-info">Tel: ${settings.shopPhone}</div>` : ''}
-  </div>
-  
-  <div class="bill-info">
-    <div><strong>Bill No:</strong> ${bill.billNumber}</div>
-    <div><strong>Date:</strong> ${new Date(bill.createdAt).toLocaleString()}</div>
-    <div><strong>Cashier:</strong> ${bill.createdByName}</div>
-    ${bill.customerName ? `<div><strong>Customer:</strong> ${bill.customerName}</div>` : ''}
-  </div>
-  
-  <div class="items">
-    <div class="item" style="font-weight: bold; border-bottom: 1px solid #000; padding-bottom: 5px;">
-      <div class="item-name">Item</div>
-      <div class="item-qty">Qty</div>
-      <div class="item-price">Price</div>
-    </div>
-    ${bill.items.map(item => `
-    <div class="item">
-      <div class="item-name">${item.name}</div>
-      <div class="item-qty">${item.quantity}</div>
-      <div class="item-price">${settings.currency}${item.subtotal.toFixed(2)}</div>
-    </div>
-    `).join('')}
-  </div>
-  
-  <div class="totals">
-    <div class="total-row">
-      <span>Subtotal:</span>
-      <span>${settings.currency}${bill.subtotal.toFixed(2)}</span>
-    </div>
-    <div class="total-row">
-      <span>CGST (${settings.cgstRate}%):</span>
-      <span>${settings.currency}${bill.cgst.toFixed(2)}</span>
-    </div>
-    <div class="total-row">
-      <span>SGST (${settings.sgstRate}%):</span>
-      <span>${settings.currency}${bill.sgst.toFixed(2)}</span>
-    </div>
-    <div class="total-row grand-total">
-      <span>GRAND TOTAL:</span>
-      <span>${settings.currency}${bill.total.toFixed(2)}</span>
+  ${bodies.join('')}
+</body>
+</html>
+  `;
+}
+
+// Accepts several bills (e.g. the parts of a split bill) so they can be
+// printed from a single window, one receipt per page.
+export function generatePrintHTML(bill: Bill | Bill[], settings: AppSettings): string {
+  const bills = Array.isArray(bill) ? bill : [bill];
+  return generateReceiptDocument(
+    `Bill ${bills.map(b => b.billNumber).join(', ')}`,
+    bills.map(b => generateReceiptBody(b, settings)),
+    settings
+  );
+}
+
+export function generateCreditNoteHTML(creditNote: CreditNote, settings: AppSettings): string {
+  return generateReceiptDocument(
+    `Credit Note ${creditNote.creditNoteNumber}`,
+    [generateCreditNoteBody(creditNote, settings)],
+    settings
+  );
+}
+
+export function generateKotHTML(kots: Kot[], settings: AppSettings): string {
+  const width = settings.printerFormat === '58mm' ? '58mm' : '80mm';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>KOT ${escapeHtml(kots.map(kot => kot.kotNumber).join(', '))}</title>
+  <style>
+    @page {
+      size: ${width} auto;
+      margin: 0;
+    }
+
+    body {
+      font-family: 'Courier New', monospace;
+      font-size: 14px;
+      line-height: 1.3;
+      padding: 8px;
+      margin: 0;
+      width: ${width};
+    }
+
+    .kot {
+      page-break-after: always;
+    }
+
+    .kot:last-child {
+      page-break-after: auto;
+    }
+
+    .kot-title {
+      text-align: center;
+      font-size: 16px;
+      font-weight: bold;
+      border-bottom: 2px dashed #000;
+      padding-bottom: 6px;
+      margin-bottom: 6px;
+    }
+
+    .kot-cancel {
+      text-decoration: underline;
+    }
+
+    .kot-info {
+      font-size: 12px;
+      margin: 2px 0;
+    }
+
+    .kot-table {
+      font-size: 20px;
+      font-weight: bold;
+    }
+
+    .items {
+      border-top: 1px dashed #000;
+      margin-top: 6px;
+      padding-top: 6px;
+    }
+
+    .item {
+      display: flex;
+      margin: 4px 0;
+      font-weight: bold;
+    }
+
+    .item-qty {
+      width: 40px;
+    }
+
+    .item-name {
+      flex: 1;
+    }
+
+    .item-extra {
+      padding-left: 40px;
+      font-size: 13px;
+    }
+  </style>
+</head>
+<body>
+  ${kots.map(kot => `
+  <div class="kot">
+    <div class="kot-title ${kot.type === 'cancel' ? 'kot-cancel' : ''}">
+      ${kot.type === 'cancel' ? '*** CANCELLED ***' : 'KITCHEN ORDER'}
     </div>
-  </div>
-  
-  ${bill.paymentMethod ? `
-  <div style="margin: 10px 0;">
-    <strong>Payment:</strong> ${bill.paymentMethod.toUpperCase()}
-  </div>
-  ` : ''}
-  
-  ${bill.notes ? `
-  <div style="margin: 10px 0; font-size: 10px;">
-    <strong>Notes:</strong> ${bill.notes}
-  </div>
-  ` : ''}
-  
-  <div class="footer">
-    <div class="thank-you">Thank You! Visit Again!</div>
-    <div style="font-size: 9px; margin-top: 5px;">
-      Powered by Restaurant POS
+    <div class="kot-table">${kot.tableName ? `Table ${escapeHtml(kot.tableName)}` : kot.orderType ? getOrderTypeLabel(kot.orderType).toUpperCase() : 'Counter'}</div>
+    <div class="kot-info"><strong>KOT No:</strong> ${escapeHtml(kot.kotNumber)}</div>
+    <div class="kot-info"><strong>Time:</strong> ${new Date(kot.createdAt).toLocaleTimeString()}</div>
+    <div class="kot-info"><strong>By:</strong> ${escapeHtml(kot.createdByName)}</div>
+    <div class="items">
+      ${kot.items.map(item => `
+      <div class="item">
+        <div class="item-qty">${kot.type === 'cancel' ? '-' : ''}${item.quantity}</div>
+        <div class="item-name">${escapeHtml(formatItemName(item))}</div>
+      </div>
+      ${(item.modifiers || []).map(modifier => `<div class="item-extra">+ ${escapeHtml(modifier)}</div>`).join('')}
+      ${item.notes ? `<div class="item-extra">** ${escapeHtml(item.notes)} **</div>` : ''}
+      `).join('')}
     </div>
   </div>
+  `).join('')}
 </body>
 </html>
   `;
 }
 
-export function printBill(bill: Bill, settings: AppSettings): void {
+function openPrintWindow(html: string, blockedMessage: string): void {
   const printWindow = window.open('', '_blank');
   if (!printWindow) {
-    alert('Please allow popups to print bills');
+    alert(blockedMessage);
     return;
   }
   
-  printWindow.document.write(generatePrintHTML(bill, settings));
+  printWindow.document.write(html);
   printWindow.document.close();
   
   // Wait for content to load, then print
@@ -195,3 +605,16 @@ export function printBill(bill: Bill, settings: AppSettings): void {
     printWindow.close();
   }, 250);
 }
+
+export function printBill(bill: Bill | Bill[], settings: AppSettings): void {
+  openPrintWindow(generatePrintHTML(bill, settings), 'Please allow popups to print bills');
+}
+
+export function printCreditNote(creditNote: CreditNote, settings: AppSettings): void {
+  openPrintWindow(generateCreditNoteHTML(creditNote, settings), 'Please allow popups to print credit notes');
+}
+
+export function printKots(kots: Kot[], settings: AppSettings): void {
+  if (kots.length === 0) return;
+  openPrintWindow(generateKotHTML(kots, settings), 'Please allow popups to print kitchen tickets');
+}
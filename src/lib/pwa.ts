@@ -0,0 +1,109 @@
+const UPDATE_CHECK_INTERVAL = 60 * 60_000;
+
+export interface StorageStatus {
+  persisted: boolean;
+  usage?: number;
+  quota?: number;
+}
+
+let updateReady = false;
+let billInProgress = false;
+let reloadRequested = false;
+let registration: ServiceWorkerRegistration | null = null;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+// An update is offered only while no bill is being entered on this tab
+export function canOfferUpdate(): boolean {
+  return updateReady && !billInProgress;
+}
+
+export function subscribeUpdate(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Billing reports whether its cart holds items, so an update waits for the bill
+export function setBillInProgress(active: boolean): void {
+  if (billInProgress === active) return;
+  billInProgress = active;
+  notify();
+}
+
+function watchInstalling(worker: ServiceWorker | null): void {
+  worker?.addEventListener('statechange', () => {
+    // The first install just caches the app; only later ones are updates
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      updateReady = true;
+      notify();
+    }
+  });
+}
+
+export async function registerServiceWorker(): Promise<void> {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+  // The first worker claiming the page is not an update
+  let controlled = !!navigator.serviceWorker.controller;
+  try {
+    registration = await navigator.serviceWorker.register('/sw.js');
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      updateReady = true;
+      notify();
+    }
+    watchInstalling(registration.installing);
+    registration.addEventListener('updatefound', () => watchInstalling(registration!.installing));
+    setInterval(() => registration?.update().catch(() => undefined), UPDATE_CHECK_INTERVAL);
+
+    // Another tab may take the update; this one keeps running the code it
+    // loaded and offers a reload instead of reloading under the cashier
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (!controlled) {
+        controlled = true;
+        return;
+      }
+      if (reloadRequested) {
+        window.location.reload();
+        return;
+      }
+      updateReady = true;
+      notify();
+    });
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+  }
+}
+
+// Switches to the new version and reloads this tab
+export function applyUpdate(): void {
+  reloadRequested = true;
+  if (registration?.waiting) {
+    registration.waiting.postMessage({ type: 'SKIP_WAITING' });
+  } else {
+    window.location.reload();
+  }
+}
+
+// Asks the browser not to clear the database when the device runs low on
+// space. Installed apps are usually granted this without a prompt.
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  try {
+    return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+  } catch (error) {
+    console.error('Persistent storage request failed:', error);
+    return false;
+  }
+}
+
+export async function getStorageStatus(): Promise<StorageStatus> {
+  if (!navigator.storage?.persisted) return { persisted: false };
+  const [persisted, estimate] = await Promise.all([
+    navigator.storage.persisted(),
+    navigator.storage.estimate?.() ?? Promise.resolve<StorageEstimate>({}),
+  ]);
+  return { persisted, usage: estimate.usage, quota: estimate.quota };
+}
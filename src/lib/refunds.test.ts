@@ -0,0 +1,110 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Bill, CreditNote } from '@/types';
+import { CreditNoteTotals, calculateCreditNoteTotals } from './refunds';
+
+// Two thalis with a taxable service charge and an untaxed packing charge
+function billWithCharges(fields: Partial<Bill> = {}): Bill {
+  return {
+    id: 'bill-1',
+    billNumber: 'BILL0001',
+    items: [{
+      menuItemId: 'item-1', name: 'Thali', price: 200, quantity: 2, subtotal: 400,
+      gstRate: 5, taxableValue: 400, cgst: 10, sgst: 10,
+    }],
+    charges: [
+      { chargeId: 'service', name: 'Service charge', type: 'percent', value: 10, amount: 40, taxable: true, gstRate: 5, cgst: 1, sgst: 1 },
+      { chargeId: 'packing', name: 'Packing', type: 'flat', value: 20, amount: 20, taxable: false, cgst: 0, sgst: 0 },
+    ],
+    subtotal: 400,
+    taxableAmount: 440,
+    cgst: 11,
+    sgst: 11,
+    total: 482,
+    payments: [{ method: 'card', amount: 482 }],
+    orderType: 'dine-in',
+    createdBy: 'user-1',
+    createdByName: 'Admin',
+    createdAt: '2025-01-15T10:00:00.000Z',
+    syncedToCloud: false,
+    ...fields,
+  };
+}
+
+function issued(bill: Bill, totals: CreditNoteTotals): CreditNote {
+  return {
+    ...totals,
+    id: 'cn-1',
+    creditNoteNumber: 'CN0001',
+    billId: bill.id,
+    billNumber: bill.billNumber,
+    reason: 'Returned',
+    refundMethod: 'card',
+    createdBy: 'user-1',
+    createdByName: 'Admin',
+    createdAt: '2025-01-15T11:00:00.000Z',
+    syncedToCloud: false,
+  };
+}
+
+describe('credit note totals', () => {
+  it('refunds a share of the charges with the lines', () => {
+    const bill = billWithCharges();
+
+    const first = calculateCreditNoteTotals(bill, { 'item-1': 1 }, []);
+    expect(first).toMatchObject({ subtotal: 200, discountTotal: 0, taxableAmount: 220, cgst: 5.5, sgst: 5.5, total: 241 });
+
+    const rest = calculateCreditNoteTotals(bill, { 'item-1': 1 }, [issued(bill, first)]);
+    expect(rest).toMatchObject({ taxableAmount: 220, cgst: 5.5, sgst: 5.5, total: 241 });
+  });
+
+  it('refunds a share of the charges on bills without line tax', () => {
+    const [item] = billWithCharges().items;
+    const bill = billWithCharges({
+      items: [{ ...item, taxableValue: undefined, cgst: undefined, sgst: undefined }],
+    });
+
+    expect(calculateCreditNoteTotals(bill, { 'item-1': 1 }, [])).toMatchObject({
+      subtotal: 200, taxableAmount: 220, cgst: 5.5, sgst: 5.5, total: 241,
+    });
+  });
+});
+
+describe('issuing a credit note', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    // db.ts keeps the open database in module state
+    vi.resetModules();
+  });
+
+  const details = (id: string, createdBy = 'user-1') => ({
+    id, reason: 'Returned', refundMethod: 'card' as const, createdBy, createdByName: 'Admin', createdAt: new Date().toISOString(),
+  });
+
+  it('works out the amounts from what is left of the bill', async () => {
+    const db = await import('./db');
+    await db.initializeDefaultData();
+    const [bill] = await db.createBills([billWithCharges({ billNumber: '', createdAt: new Date().toISOString() })]);
+
+    const first = await db.createCreditNote(bill.id, { 'item-1': 1 }, details('cn-1'));
+    expect(first).toMatchObject({ billNumber: bill.billNumber, taxableAmount: 220, total: 241 });
+
+    await expect(db.createCreditNote(bill.id, { 'item-1': 2 }, details('cn-2')))
+      .rejects.toThrow(`Refund quantities exceed what is left on bill ${bill.billNumber}`);
+    expect(await db.createCreditNote(bill.id, { 'item-1': 1 }, details('cn-2'))).toMatchObject({ total: 241 });
+  });
+
+  it('is only issued by an admin or manager', async () => {
+    const db = await import('./db');
+    await db.initializeDefaultData();
+    await db.createUser({
+      id: 'user-2', username: 'staff', passwordHash: '', role: 'staff', name: 'Staff', createdAt: '', isActive: true,
+    });
+    const [bill] = await db.createBills([billWithCharges({ billNumber: '', createdAt: new Date().toISOString() })]);
+
+    await expect(db.createCreditNote(bill.id, { 'item-1': 1 }, details('cn-1', 'user-2')))
+      .rejects.toThrow('Only an admin or manager can issue a credit note');
+    expect(await db.getCreditNotesByBill(bill.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import { Bill, BillCharge, BillItem, CreditNote, PaymentMethod } from '@/types';
+import { getLineKey, roundMoney } from './billing';
+
+export type CreditNoteTotals = Pick<CreditNote, 'items' | 'subtotal' | 'discountTotal' | 'taxableAmount' | 'cgst' | 'sgst' | 'igst' | 'roundOff' | 'total'>;
+
+// Voids are only allowed on the day the bill was raised and before any refund
+export function canVoidBill(bill: Bill, creditNotes: CreditNote[], now: Date = new Date()): boolean {
+  return !bill.void
+    && creditNotes.length === 0
+    && new Date(bill.createdAt).toDateString() === now.toDateString();
+}
+
+// Quantity of each bill line (by line key) not yet covered by a credit note
+export function getRefundableQuantities(bill: Bill, creditNotes: CreditNote[]): Record<string, number> {
+  const remaining: Record<string, number> = {};
+  for (const item of bill.items) {
+    remaining[getLineKey(item)] = item.quantity;
+  }
+  for (const creditNote of creditNotes) {
+    for (const item of creditNote.items) {
+      const key = getLineKey(item);
+      // Split bills can carry fractional quantities
+      remaining[key] = Math.round(((remaining[key] || 0) - item.quantity) * 1000) / 1000;
+    }
+  }
+  return remaining;
+}
+
+export function getCreditedTotal(creditNotes: CreditNote[]): number {
+  return roundMoney(creditNotes.reduce((sum, creditNote) => sum + creditNote.total, 0));
+}
+
+function getLineNet(item: BillItem): number {
+  return item.subtotal - (item.discount?.amount || 0);
+}
+
+function refundLine(item: BillItem, quantity: number): BillItem {
+  const share = quantity / item.quantity;
+  return {
+    ...item,
+    quantity,
+    subtotal: roundMoney(item.price * quantity),
+    discount: item.discount ? { ...item.discount, amount: roundMoney(item.discount.amount * share) } : undefined,
+    taxableValue: item.taxableValue !== undefined ? roundMoney(item.taxableValue * share) : undefined,
+    cgst: item.cgst !== undefined ? roundMoney(item.cgst * share) : undefined,
+    sgst: item.sgst !== undefined ? roundMoney(item.sgst * share) : undefined,
+    igst: item.igst !== undefined ? roundMoney(item.igst * share) : undefined,
+  };
+}
+
+// The bill's charges were worked out on the value of its lines, so refunded
+// lines take the same share of them
+function refundCharges(charges: BillCharge[], share: number) {
+  const sum = (value: (charge: BillCharge) => number) => charges.reduce((total, charge) => total + value(charge), 0) * share;
+  return {
+    taxable: sum(charge => (charge.taxable ? charge.amount : 0)),
+    untaxed: sum(charge => (charge.taxable ? 0 : charge.amount)),
+    cgst: sum(charge => charge.cgst),
+    sgst: sum(charge => charge.sgst),
+    igst: sum(charge => charge.igst || 0),
+  };
+}
+
+function sumField(creditNotes: CreditNote[], field: 'subtotal' | 'discountTotal' | 'taxableAmount' | 'cgst' | 'sgst' | 'igst' | 'roundOff' | 'total'): number {
+  return creditNotes.reduce((sum, creditNote) => sum + (creditNote[field] || 0), 0);
+}
+
+// Refunded lines take their share of the bill discount, charges and tax in
+// proportion to their net value, or their own line tax where the bill has it
+// (and their share of the charges by taxable value). The credit
+// note that refunds the last remaining lines takes whatever is left so the
+// bill is reversed exactly, without rounding drift.
+export function calculateCreditNoteTotals(
+  bill: Bill,
+  quantities: Record<string, number>,
+  creditNotes: CreditNote[]
+): CreditNoteTotals {
+  const remaining = getRefundableQuantities(bill, creditNotes);
+  const items = bill.items
+    .filter(item => (quantities[getLineKey(item)] || 0) > 0)
+    .map(item => refundLine(item, quantities[getLineKey(item)]));
+
+  const isFinal = bill.items.every(item => (quantities[getLineKey(item)] || 0) >= remaining[getLineKey(item)]);
+  const taxableAmount = bill.taxableAmount ?? bill.subtotal - (bill.discountTotal || 0);
+
+  if (isFinal) {
+    return {
+      items,
+      subtotal: roundMoney(bill.subtotal - sumField(creditNotes, 'subtotal')),
+      discountTotal: roundMoney((bill.discountTotal || 0) - sumField(creditNotes, 'discountTotal')),
+      taxableAmount: roundMoney(taxableAmount - sumField(creditNotes, 'taxableAmount')),
+      cgst: roundMoney(bill.cgst - sumField(creditNotes, 'cgst')),
+      sgst: roundMoney(bill.sgst - sumField(creditNotes, 'sgst')),
+      igst: bill.igst ? roundMoney(bill.igst - sumField(creditNotes, 'igst')) : undefined,
+      roundOff: bill.roundOff ? roundMoney(bill.roundOff - sumField(creditNotes, 'roundOff')) : undefined,
+      total: roundMoney(bill.total - sumField(creditNotes, 'total')),
+    };
+  }
+
+  // Lines taxed at their own GST rate carry their own tax, so refund that
+  if (bill.items.every(item => item.taxableValue !== undefined)) {
+    const subtotal = roundMoney(items.reduce((sum, item) => sum + item.subtotal, 0));
+    const lineTaxable = roundMoney(items.reduce((sum, item) => sum + (item.taxableValue || 0), 0));
+    const cgst = roundMoney(items.reduce((sum, item) => sum + (item.cgst || 0), 0));
+    const sgst = roundMoney(items.reduce((sum, item) => sum + (item.sgst || 0), 0));
+    const igst = roundMoney(items.reduce((sum, item) => sum + (item.igst || 0), 0));
+    const lineTotal = roundMoney(lineTaxable + cgst + sgst + igst);
+    const billTaxable = bill.items.reduce((sum, item) => sum + (item.taxableValue || 0), 0);
+    const charges = refundCharges(bill.charges || [], billTaxable > 0 ? lineTaxable / billTaxable : 0);
+    const refundTaxable = roundMoney(lineTaxable + charges.taxable);
+    const refundCgst = roundMoney(cgst + charges.cgst);
+    const refundSgst = roundMoney(sgst + charges.sgst);
+    const refundIgst = roundMoney(igst + charges.igst);
+    return {
+      items,
+      subtotal,
+      // Tax-inclusive subtotals already include the tax
+      discountTotal: roundMoney(subtotal - (bill.taxInclusive ? lineTotal : lineTaxable)),
+      taxableAmount: refundTaxable,
+      cgst: refundCgst,
+      sgst: refundSgst,
+      igst: bill.igst ? refundIgst : undefined,
+      total: roundMoney(refundTaxable + charges.untaxed + refundCgst + refundSgst + refundIgst),
+    };
+  }
+
+  const billNet = bill.items.reduce((sum, item) => sum + getLineNet(item), 0);
+  const share = billNet > 0 ? items.reduce((sum, item) => sum + getLineNet(item), 0) / billNet : 0;
+  const itemDiscount = items.reduce((sum, item) => sum + (item.discount?.amount || 0), 0);
+  // The bill's taxable amount and tax include its charges; the lines take
+  // their share of what is left, and the charges are added back on their own
+  const billCharges = refundCharges(bill.charges || [], 1);
+  const charges = refundCharges(bill.charges || [], share);
+  const refundTaxable = roundMoney((taxableAmount - billCharges.taxable) * share + charges.taxable);
+  const cgst = roundMoney((bill.cgst - billCharges.cgst) * share + charges.cgst);
+  const sgst = roundMoney((bill.sgst - billCharges.sgst) * share + charges.sgst);
+  const igst = roundMoney(((bill.igst || 0) - billCharges.igst) * share + charges.igst);
+
+  return {
+    items,
+    subtotal: roundMoney(items.reduce((sum, item) => sum + item.subtotal, 0)),
+    discountTotal: roundMoney(itemDiscount + (bill.discount?.amount || 0) * share),
+    taxableAmount: refundTaxable,
+    cgst,
+    sgst,
+    igst: bill.igst ? igst : undefined,
+    total: roundMoney(refundTaxable + charges.untaxed + cgst + sgst + igst),
+  };
+}
+
+export function summarizeRefunds(creditNotes: CreditNote[]): Record<PaymentMethod, number> {
+  const summary: Record<PaymentMethod, number> = { cash: 0, card: 0, upi: 0 };
+  for (const creditNote of creditNotes) {
+    summary[creditNote.refundMethod] = roundMoney(summary[creditNote.refundMethod] + creditNote.total);
+  }
+  return summary;
+}
@@ -0,0 +1,249 @@
+import { AppSettings } from '@/types';
+import {
+  PendingChange,
+  RemoteChange,
+  acknowledgeChanges,
+  applyRemoteChanges,
+  countPendingChanges,
+  getPendingChanges,
+  getRefusedChanges,
+  getReplicationState,
+  getSettings,
+  recordChangeErrors,
+} from './db';
+import { SyncState, getRetryDelay } from './sync';
+
+const PUSH_BATCH_SIZE = 100;
+const PULL_PAGE_SIZE = 500;
+const POLL_INTERVAL = 15_000;
+// A change the server answers with an error this often stops being pushed
+const MAX_PUSH_ATTEMPTS = 5;
+const STATUS_KEY = 'pos_replication_status';
+
+export interface ReplicationStatus {
+  state: SyncState;
+  // Local edits not yet accepted or answered by the server
+  pending: number;
+  // Local edits the server kept refusing; they are no longer pushed
+  refused: number;
+  refusedError?: string;
+  lastSyncAt?: string;
+  lastError?: string;
+  failures: number;
+  nextRetryAt?: string;
+}
+
+interface PushResponse {
+  ok: boolean;
+  results?: { store: string; id: string; accepted: boolean; error?: string }[];
+  error?: string;
+}
+
+interface ChangesResponse {
+  ok: boolean;
+  changes?: RemoteChange[];
+  cursor?: number;
+  more?: boolean;
+  error?: string;
+}
+
+function loadStatus(): ReplicationStatus {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STATUS_KEY) || '{}');
+    return { state: 'idle', pending: 0, refused: 0, failures: 0, lastSyncAt: saved.lastSyncAt, lastError: saved.lastError };
+  } catch {
+    return { state: 'idle', pending: 0, refused: 0, failures: 0 };
+  }
+}
+
+let status: ReplicationStatus = loadStatus();
+const listeners = new Set<(status: ReplicationStatus) => void>();
+
+function setStatus(changes: Partial<ReplicationStatus>): void {
+  status = { ...status, ...changes };
+  localStorage.setItem(STATUS_KEY, JSON.stringify({ lastSyncAt: status.lastSyncAt, lastError: status.lastError }));
+  listeners.forEach(listener => listener(status));
+}
+
+export function getReplicationStatus(): ReplicationStatus {
+  return status;
+}
+
+export function subscribeReplicationStatus(listener: (status: ReplicationStatus) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+async function request<T extends { ok: boolean; error?: string }>(
+  settings: AppSettings,
+  path: string,
+  init?: RequestInit
+): Promise<T> {
+  const base = settings.syncServerUrl!.trim().replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.syncToken) headers.Authorization = `Bearer ${settings.syncToken}`;
+
+  const response = await fetch(`${base}${path}`, { ...init, headers });
+  let result: T;
+  try {
+    result = await response.json();
+  } catch {
+    throw new Error(`Sync server returned ${response.status} without JSON; check the server URL`);
+  }
+  if (!response.ok || !result.ok) {
+    throw new Error(result.error || `Sync server returned ${response.status}`);
+  }
+  return result;
+}
+
+// Sends one batch of local edits. Rejected ones lost to a newer version on
+// the server, which arrives with the next pull, so every answered change is
+// done. Changes answered with an error are tried again on later pushes, up to
+// MAX_PUSH_ATTEMPTS times. Returns how many were done.
+async function pushBatch(settings: AppSettings, terminalId: string): Promise<number> {
+  const pending: PendingChange[] = await getPendingChanges(PUSH_BATCH_SIZE, MAX_PUSH_ATTEMPTS);
+  if (pending.length === 0) return 0;
+
+  const result = await request<PushResponse>(settings, '/push', {
+    method: 'POST',
+    body: JSON.stringify({
+      terminalId,
+      changes: pending.map(({ change, record }) => ({ store: change.store, id: change.recordId, rev: change.rev, record })),
+    }),
+  });
+
+  const answers = new Map((result.results || []).map(item => [`${item.store}:${item.id}`, item]));
+  const changes = pending.map(({ change }) => change);
+  const done = changes.filter(change => answers.has(change.id) && !answers.get(change.id)!.error);
+  const failed = changes
+    .filter(change => answers.get(change.id)?.error)
+    .map(change => ({ change, error: answers.get(change.id)!.error! }));
+  await acknowledgeChanges(done);
+  await recordChangeErrors(failed);
+  if (done.length === 0 && failed.length === 0) {
+    throw new Error('Sync server did not answer for any changes');
+  }
+  return done.length;
+}
+
+async function countChanges(): Promise<Pick<ReplicationStatus, 'pending' | 'refused' | 'refusedError'>> {
+  const refused = await getRefusedChanges(MAX_PUSH_ATTEMPTS);
+  return { pending: await countPendingChanges(), refused: refused.length, refusedError: refused[0]?.lastError };
+}
+
+// Pulls every change since the last one seen; returns how many were applied here
+async function pull(settings: AppSettings, preferRemote = false): Promise<number> {
+  let applied = 0;
+  for (;;) {
+    const { cursor } = await getReplicationState();
+    const result = await request<ChangesResponse>(settings, `/changes?since=${cursor}&limit=${PULL_PAGE_SIZE}`);
+    applied += await applyRemoteChanges(result.changes || [], result.cursor ?? cursor, preferRemote);
+    if (!result.more) return applied;
+  }
+}
+
+let running: Promise<void> | null = null;
+
+// Pushes local edits, then pulls everyone else's. Errors are recorded in the
+// status rather than thrown.
+export function replicateNow(): Promise<void> {
+  if (running) return running;
+
+  running = (async () => {
+    try {
+      const settings = await getSettings();
+      if (!settings?.syncServerUrl?.trim()) {
+        setStatus({ state: 'disabled', ...await countChanges() });
+        return;
+      }
+      if (!navigator.onLine) {
+        setStatus({ state: 'offline', ...await countChanges() });
+        return;
+      }
+
+      setStatus({ state: 'syncing', ...await countChanges() });
+      // A terminal that has never pulled (or was just restored) catches up
+      // with the shop before its own records are sent
+      const { terminalId, cursor } = await getReplicationState();
+      if (cursor === 0) await pull(settings, true);
+      while (await pushBatch(settings, terminalId) > 0) {
+        setStatus({ pending: await countPendingChanges() });
+        if (status.pending === 0) break;
+      }
+      await pull(settings);
+      setStatus({
+        state: 'idle',
+        ...await countChanges(),
+        lastSyncAt: new Date().toISOString(),
+        lastError: undefined,
+        failures: 0,
+        nextRetryAt: undefined,
+      });
+    } catch (error) {
+      console.error('Replication failed:', error);
+      const failures = status.failures + 1;
+      setStatus({
+        state: navigator.onLine ? 'error' : 'offline',
+        // The database itself may be what failed
+        ...await countChanges().catch(() => ({})),
+        lastError: error instanceof Error ? error.message : 'Replication failed',
+        failures,
+        nextRetryAt: new Date(Date.now() + getRetryDelay(failures)).toISOString(),
+      });
+    }
+  })().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let workerStarted = false;
+
+function schedule(delay: number): void {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(runWorker, delay);
+}
+
+// Always schedules the next run, so one failure cannot stop the worker
+async function runWorker(): Promise<void> {
+  try {
+    await replicateNow();
+  } catch (error) {
+    console.error('Replication worker failed:', error);
+  } finally {
+    const retryIn = status.nextRetryAt ? new Date(status.nextRetryAt).getTime() - Date.now() : 0;
+    schedule(status.failures > 0 ? Math.max(retryIn, 0) : POLL_INTERVAL);
+  }
+}
+
+const handleOnline = () => {
+  setStatus({ failures: 0, nextRetryAt: undefined });
+  schedule(0);
+};
+
+const handleOffline = () => setStatus({ state: 'offline' });
+
+// Starts the background worker; returns a function that stops it
+export function startReplicationWorker(): () => void {
+  if (workerStarted) return () => undefined;
+  workerStarted = true;
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  schedule(0);
+
+  return () => {
+    workerStarted = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+}
+
+// Asks the worker to replicate soon, e.g. right after a bill or menu item is saved
+export function requestReplication(): void {
+  if (workerStarted && status.failures === 0 && status.state !== 'syncing') schedule(1_000);
+}
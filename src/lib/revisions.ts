@@ -0,0 +1,16 @@
+import { RecordRev } from '@/types';
+
+// Orders two versions of a record; positive when a is newer. Records saved
+// before replication have no stamp and lose to any stamped version. The sync
+// server applies the same rule (scripts/sync-server.mjs).
+export function compareRev(a?: RecordRev, b?: RecordRev): number {
+  if (!a || !b) return (a ? 1 : 0) - (b ? 1 : 0);
+  if (a.version !== b.version) return a.version - b.version;
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt < b.updatedAt ? -1 : 1;
+  if (a.terminalId !== b.terminalId) return a.terminalId < b.terminalId ? -1 : 1;
+  return 0;
+}
+
+export function latestRev(...revs: (RecordRev | undefined)[]): RecordRev | undefined {
+  return revs.reduce((latest, rev) => (compareRev(rev, latest) > 0 ? rev : latest), undefined);
+}
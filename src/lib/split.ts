@@ -0,0 +1,83 @@
+import { BillItem, Discount } from '@/types';
+import { getLineKey, roundMoney } from './billing';
+
+// Quantity of each cart line (by line key) that goes to each split part
+export type SplitAssignment = Record<string, number[]>;
+
+export function createAssignment(items: BillItem[], parts: number): SplitAssignment {
+  const assignment: SplitAssignment = {};
+  for (const item of items) {
+    assignment[getLineKey(item)] = Array.from({ length: parts }, (_, i) => (i === 0 ? item.quantity : 0));
+  }
+  return assignment;
+}
+
+// Changes the number of parts; quantities in removed parts fall back to the first
+export function resizeAssignment(assignment: SplitAssignment, parts: number): SplitAssignment {
+  const resized: SplitAssignment = {};
+  for (const [key, quantities] of Object.entries(assignment)) {
+    const next = Array.from({ length: parts }, (_, i) => quantities[i] || 0);
+    next[0] += quantities.slice(parts).reduce((sum, quantity) => sum + quantity, 0);
+    resized[key] = next;
+  }
+  return resized;
+}
+
+export function moveUnit(assignment: SplitAssignment, lineKey: string, from: number, to: number): SplitAssignment {
+  const quantities = assignment[lineKey];
+  if (!quantities || from === to || quantities[from] <= 0) return assignment;
+
+  const next = [...quantities];
+  next[from] -= 1;
+  next[to] += 1;
+  return { ...assignment, [lineKey]: next };
+}
+
+export function assignLine(assignment: SplitAssignment, lineKey: string, part: number): SplitAssignment {
+  const quantities = assignment[lineKey];
+  if (!quantities) return assignment;
+
+  const total = quantities.reduce((sum, quantity) => sum + quantity, 0);
+  return { ...assignment, [lineKey]: quantities.map((_, i) => (i === part ? total : 0)) };
+}
+
+export function prorateDiscount<T extends Pick<Discount, 'type' | 'value'>>(discount: T | undefined, share: number): T | undefined {
+  if (!discount) return undefined;
+  if (discount.type === 'percent') return { ...discount };
+  return { ...discount, value: roundMoney(discount.value * share) };
+}
+
+function splitLine(item: BillItem, quantity: number): BillItem {
+  return {
+    ...item,
+    quantity,
+    subtotal: roundMoney(item.price * quantity),
+    discount: prorateDiscount(item.discount, quantity / item.quantity),
+  };
+}
+
+export function splitByAssignment(items: BillItem[], assignment: SplitAssignment, parts: number): BillItem[][] {
+  return Array.from({ length: parts }, (_, part) =>
+    items
+      .filter(item => (assignment[getLineKey(item)]?.[part] || 0) > 0)
+      .map(item => splitLine(item, assignment[getLineKey(item)][part]))
+  );
+}
+
+// Every part gets an equal fraction of every line; the last part absorbs
+// the rounding so the parts add back up to the original amounts.
+export function splitEqually(items: BillItem[], parts: number): BillItem[][] {
+  return Array.from({ length: parts }, (_, part) =>
+    items.map(item => {
+      const isLast = part === parts - 1;
+      const share = roundMoney(item.subtotal / parts);
+      const subtotal = isLast ? roundMoney(item.subtotal - share * (parts - 1)) : share;
+      return {
+        ...item,
+        quantity: Math.round((item.quantity / parts) * 1000) / 1000,
+        subtotal,
+        discount: prorateDiscount(item.discount, subtotal / item.subtotal),
+      };
+    })
+  );
+}
@@ -0,0 +1,190 @@
+import { format } from 'date-fns';
+import { Bill, CreditNote, DailySummary, OrderType } from '@/types';
+import type { WriteTransaction } from './db';
+import { getOrderType, roundMoney } from './billing';
+import { getBillPayments } from './payments';
+
+export function getSummaryDate(date: string | Date): string {
+  return format(new Date(date), 'yyyy-MM-dd');
+}
+
+export function emptySummary(id: string): DailySummary {
+  return {
+    id,
+    bills: 0,
+    voided: 0,
+    items: 0,
+    sales: 0,
+    discounts: 0,
+    taxable: 0,
+    tax: 0,
+    roundOff: 0,
+    payments: { cash: 0, card: 0, upi: 0 },
+    orderTypes: {},
+    discountReasons: {},
+    charges: {},
+    creditNotes: 0,
+    refunds: 0,
+    refundTaxable: 0,
+    refundTax: 0,
+    refundRoundOff: 0,
+    refundPayments: { cash: 0, card: 0, upi: 0 },
+  };
+}
+
+// Adds a bill to (sign 1) or takes it off (sign -1) a summary, in place
+export function addBillToSummary(summary: DailySummary, bill: Bill, sign: 1 | -1): DailySummary {
+  if (bill.void) {
+    summary.voided += sign;
+    return summary;
+  }
+
+  const add = (value: number, amount: number) => roundMoney(value + sign * amount);
+  summary.bills += sign;
+  summary.items += sign * bill.items.length;
+  summary.sales = add(summary.sales, bill.total);
+  summary.discounts = add(summary.discounts, bill.discountTotal || 0);
+  summary.taxable = add(summary.taxable, bill.taxableAmount ?? bill.subtotal - (bill.discountTotal || 0));
+  summary.tax = add(summary.tax, bill.cgst + bill.sgst + (bill.igst || 0));
+  summary.roundOff = add(summary.roundOff, bill.roundOff || 0);
+  for (const payment of getBillPayments(bill)) {
+    summary.payments[payment.method] = add(summary.payments[payment.method], payment.amount);
+  }
+
+  const orderType = getOrderType(bill);
+  const type = summary.orderTypes[orderType] || { bills: 0, sales: 0, refunds: 0 };
+  summary.orderTypes[orderType] = { ...type, bills: type.bills + sign, sales: add(type.sales, bill.total) };
+
+  for (const discount of [bill.discount, ...bill.items.map(item => item.discount)]) {
+    if (!discount) continue;
+    const entry = summary.discountReasons[discount.reason] || { count: 0, amount: 0 };
+    summary.discountReasons[discount.reason] = { count: entry.count + sign, amount: add(entry.amount, discount.amount) };
+  }
+  for (const charge of bill.charges || []) {
+    const entry = summary.charges[charge.name] || { applied: 0, waived: 0, amount: 0 };
+    summary.charges[charge.name] = { ...entry, applied: entry.applied + sign, amount: add(entry.amount, charge.amount) };
+  }
+  for (const name of bill.waivedCharges || []) {
+    const entry = summary.charges[name] || { applied: 0, waived: 0, amount: 0 };
+    summary.charges[name] = { ...entry, waived: entry.waived + sign };
+  }
+  return summary;
+}
+
+// orderType is that of the bill refunded, when the bill is still on record
+export function addCreditNoteToSummary(
+  summary: DailySummary,
+  creditNote: CreditNote,
+  orderType: OrderType | undefined,
+  sign: 1 | -1
+): DailySummary {
+  const add = (value: number, amount: number) => roundMoney(value + sign * amount);
+  summary.creditNotes += sign;
+  summary.refunds = add(summary.refunds, creditNote.total);
+  summary.refundTaxable = add(summary.refundTaxable, creditNote.taxableAmount);
+  summary.refundTax = add(summary.refundTax, creditNote.cgst + creditNote.sgst + (creditNote.igst || 0));
+  summary.refundRoundOff = add(summary.refundRoundOff, creditNote.roundOff || 0);
+  summary.refundPayments[creditNote.refundMethod] = add(summary.refundPayments[creditNote.refundMethod], creditNote.total);
+  if (orderType) {
+    const type = summary.orderTypes[orderType] || { bills: 0, sales: 0, refunds: 0 };
+    summary.orderTypes[orderType] = { ...type, refunds: add(type.refunds, creditNote.total) };
+  }
+  return summary;
+}
+
+// Adds up the summaries of a period; entries that netted out to nothing are dropped
+export function mergeSummaries(summaries: DailySummary[]): DailySummary {
+  const total = emptySummary('total');
+  const add = (value: number, amount: number) => roundMoney(value + amount);
+  for (const day of summaries) {
+    total.bills += day.bills;
+    total.voided += day.voided;
+    total.items += day.items;
+    total.sales = add(total.sales, day.sales);
+    total.discounts = add(total.discounts, day.discounts);
+    total.taxable = add(total.taxable, day.taxable);
+    total.tax = add(total.tax, day.tax);
+    total.roundOff = add(total.roundOff, day.roundOff);
+    total.creditNotes += day.creditNotes;
+    total.refunds = add(total.refunds, day.refunds);
+    total.refundTaxable = add(total.refundTaxable, day.refundTaxable);
+    total.refundTax = add(total.refundTax, day.refundTax);
+    total.refundRoundOff = add(total.refundRoundOff, day.refundRoundOff);
+    for (const method of Object.keys(total.payments) as (keyof DailySummary['payments'])[]) {
+      total.payments[method] = add(total.payments[method], day.payments[method]);
+      total.refundPayments[method] = add(total.refundPayments[method], day.refundPayments[method]);
+    }
+    for (const [orderType, entry] of Object.entries(day.orderTypes) as [OrderType, { bills: number; sales: number; refunds: number }][]) {
+      const type = total.orderTypes[orderType] || { bills: 0, sales: 0, refunds: 0 };
+      total.orderTypes[orderType] = {
+        bills: type.bills + entry.bills,
+        sales: add(type.sales, entry.sales),
+        refunds: add(type.refunds, entry.refunds),
+      };
+    }
+    for (const [reason, entry] of Object.entries(day.discountReasons)) {
+      const current = total.discountReasons[reason] || { count: 0, amount: 0 };
+      total.discountReasons[reason] = { count: current.count + entry.count, amount: add(current.amount, entry.amount) };
+    }
+    for (const [name, entry] of Object.entries(day.charges)) {
+      const current = total.charges[name] || { applied: 0, waived: 0, amount: 0 };
+      total.charges[name] = {
+        applied: current.applied + entry.applied,
+        waived: current.waived + entry.waived,
+        amount: add(current.amount, entry.amount),
+      };
+    }
+  }
+
+  total.discountReasons = Object.fromEntries(Object.entries(total.discountReasons).filter(([, entry]) => entry.count > 0));
+  total.charges = Object.fromEntries(Object.entries(total.charges).filter(([, entry]) => entry.applied > 0 || entry.waived > 0));
+  return total;
+}
+
+async function updateSummary(tx: WriteTransaction, date: string, change: (summary: DailySummary) => DailySummary): Promise<void> {
+  const id = getSummaryDate(date);
+  const store = tx.objectStore('dailySummaries');
+  await store.put(change((await store.get(id)) || emptySummary(id)));
+}
+
+// Moves a bill's totals from its old version to its new one, inside the
+// transaction that writes the bill. Either version may be missing.
+export async function recordBillInSummary(tx: WriteTransaction, previous: Bill | undefined, next: Bill | undefined): Promise<void> {
+  if (previous) await updateSummary(tx, previous.createdAt, summary => addBillToSummary(summary, previous, -1));
+  if (next) await updateSummary(tx, next.createdAt, summary => addBillToSummary(summary, next, 1));
+}
+
+export async function recordCreditNoteInSummary(tx: WriteTransaction, creditNote: CreditNote, bill: Bill | undefined): Promise<void> {
+  await updateSummary(tx, creditNote.createdAt, summary => addCreditNoteToSummary(summary, creditNote, bill ? getOrderType(bill) : undefined, 1));
+}
+
+// Works every summary out again from the bills and credit notes
+export async function rebuildDailySummaries(tx: WriteTransaction): Promise<void> {
+  const summaries = new Map<string, DailySummary>();
+  const getSummary = (date: string) => {
+    const id = getSummaryDate(date);
+    if (!summaries.has(id)) summaries.set(id, emptySummary(id));
+    return summaries.get(id)!;
+  };
+
+  const orderTypes = new Map<string, OrderType>();
+  let billCursor = await tx.objectStore('bills').openCursor();
+  while (billCursor) {
+    const bill = billCursor.value;
+    addBillToSummary(getSummary(bill.createdAt), bill, 1);
+    orderTypes.set(bill.id, getOrderType(bill));
+    billCursor = await billCursor.continue();
+  }
+  let creditNoteCursor = await tx.objectStore('creditNotes').openCursor();
+  while (creditNoteCursor) {
+    const creditNote = creditNoteCursor.value;
+    addCreditNoteToSummary(getSummary(creditNote.createdAt), creditNote, orderTypes.get(creditNote.billId), 1);
+    creditNoteCursor = await creditNoteCursor.continue();
+  }
+
+  const store = tx.objectStore('dailySummaries');
+  await store.clear();
+  for (const summary of summaries.values()) {
+    await store.put(summary);
+  }
+}
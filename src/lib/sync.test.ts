@@ -0,0 +1,202 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Bill } from '@/types';
+
+const SHEETS_URL = 'http://localhost:8787/';
+
+type Row = Record<string, unknown>;
+
+// Answers like scripts/sheets-stub.mjs: one row per document id, a document
+// sent again overwrites its row, and every row stored is acknowledged
+function createSheetsStub() {
+  const rows = { bills: new Map<string, Row>(), creditNotes: new Map<string, Row>() };
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const batch = JSON.parse(String(init.body));
+    const ids: string[] = [];
+    for (const key of ['bills', 'creditNotes'] as const) {
+      for (const row of batch[key] || []) {
+        rows[key].set(row.id, row);
+        ids.push(row.id);
+      }
+    }
+    return new Response(JSON.stringify({ ok: true, ids }));
+  });
+  return { rows, fetch };
+}
+
+function newBill(id: string): Bill {
+  return {
+    id,
+    billNumber: '',
+    items: [{ menuItemId: 'item-1', name: 'Tea', price: 100, quantity: 1, subtotal: 100 }],
+    subtotal: 100,
+    cgst: 2.5,
+    sgst: 2.5,
+    total: 105,
+    payments: [{ method: 'cash', amount: 105 }],
+    orderType: 'takeaway',
+    createdBy: 'user-1',
+    createdByName: 'Admin',
+    createdAt: new Date().toISOString(),
+    syncedToCloud: false,
+  };
+}
+
+// Fresh modules per test: db.ts holds the open database and sync.ts the status
+async function setUp() {
+  const db = await import('./db');
+  const sync = await import('./sync');
+  await db.initializeDefaultData();
+  const settings = (await db.getSettings())!;
+  await db.saveSettings({ ...settings, id: 'settings-1', googleSheetsUrl: SHEETS_URL });
+  return { db, sync };
+}
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  storage.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('cloud sync', () => {
+  it('sends queued bills and credit notes and marks them synced', async () => {
+    const { db, sync } = await setUp();
+    const stub = createSheetsStub();
+    vi.stubGlobal('fetch', stub.fetch);
+    const [bill] = await db.createBills([newBill('bill-1'), newBill('bill-2')]);
+    await db.createCreditNote(bill.id, { 'item-1': 0.5 }, {
+      id: 'cn-1', reason: 'Cold', refundMethod: 'cash', createdBy: 'user-1', createdByName: 'Admin',
+      createdAt: new Date().toISOString(),
+    });
+
+    await sync.syncNow();
+
+    expect(stub.fetch).toHaveBeenCalledWith(SHEETS_URL, expect.objectContaining({ method: 'POST' }));
+    expect([...stub.rows.bills.keys()]).toEqual(['bill-1', 'bill-2']);
+    expect(stub.rows.creditNotes.get('cn-1')).toMatchObject({ billNumber: bill.billNumber, total: 52.5 });
+    expect(sync.getSyncStatus()).toMatchObject({ state: 'idle', pending: 0, failures: 0 });
+    expect(await db.countOutbox()).toBe(0);
+    expect((await db.getBill('bill-1'))?.syncedToCloud).toBe(true);
+  });
+
+  it('sends a document again when it changes, overwriting its row', async () => {
+    const { db, sync } = await setUp();
+    const stub = createSheetsStub();
+    vi.stubGlobal('fetch', stub.fetch);
+    await db.createBills([newBill('bill-1')]);
+    await sync.syncNow();
+
+    await db.voidBill('bill-1', { reason: 'Wrong table', voidedBy: 'user-1', voidedByName: 'Admin', voidedAt: new Date().toISOString() });
+    expect(await db.countOutbox()).toBe(1);
+    await sync.syncNow();
+
+    expect(stub.fetch).toHaveBeenCalledTimes(2);
+    expect(stub.rows.bills.size).toBe(1);
+    expect(stub.rows.bills.get('bill-1')).toMatchObject({ status: 'void', voidReason: 'Wrong table' });
+    expect(await db.countOutbox()).toBe(0);
+  });
+
+  it('keeps documents the endpoint did not acknowledge', async () => {
+    const { db, sync } = await setUp();
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ ok: true, ids: ['bill-1'] }))));
+    await db.createBills([newBill('bill-1'), newBill('bill-2')]);
+
+    await sync.syncNow();
+
+    expect(sync.getSyncStatus()).toMatchObject({ state: 'error', pending: 1, lastError: 'Sync endpoint did not acknowledge any documents' });
+    expect((await db.getBill('bill-1'))?.syncedToCloud).toBe(true);
+    expect((await db.getBill('bill-2'))?.syncedToCloud).toBe(false);
+  });
+
+  it('keeps a document saved again while its batch was in flight', async () => {
+    const { db, sync } = await setUp();
+    const stub = createSheetsStub();
+    await db.createBills([newBill('bill-1')]);
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const bill = (await db.getBill('bill-1'))!;
+      await db.updateBill({ ...bill, customerName: 'Asha', syncedToCloud: false });
+      vi.stubGlobal('fetch', stub.fetch);
+      return stub.fetch(url, init);
+    }));
+
+    await sync.syncNow();
+
+    // The first push is acknowledged but the edit is queued again and sent next
+    expect(stub.fetch).toHaveBeenCalledTimes(2);
+    expect(stub.rows.bills.get('bill-1')).toMatchObject({ customer: 'Asha' });
+    expect(await db.countOutbox()).toBe(0);
+  });
+
+  it('backs off after failed attempts and resets once a push succeeds', async () => {
+    const { db, sync } = await setUp();
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ ok: false, error: 'Simulated failure' }), { status: 503 })));
+    await db.createBills([newBill('bill-1')]);
+
+    const started = Date.now();
+    await sync.syncNow();
+    const first = sync.getSyncStatus();
+    await sync.syncNow();
+    const second = sync.getSyncStatus();
+
+    expect(first).toMatchObject({ state: 'error', failures: 1, pending: 1, lastError: 'Sync endpoint returned 503' });
+    expect(new Date(first.nextRetryAt!).getTime() - started).toBeGreaterThanOrEqual(4_000);
+    expect(second.failures).toBe(2);
+    expect(new Date(second.nextRetryAt!).getTime() - started).toBeGreaterThanOrEqual(8_000);
+
+    vi.stubGlobal('fetch', createSheetsStub().fetch);
+    await sync.syncNow();
+    expect(sync.getSyncStatus()).toMatchObject({ state: 'idle', failures: 0, pending: 0, nextRetryAt: undefined });
+  });
+
+  it('waits while the device is offline', async () => {
+    const { db, sync } = await setUp();
+    const stub = createSheetsStub();
+    vi.stubGlobal('fetch', stub.fetch);
+    vi.stubGlobal('navigator', { onLine: false });
+    await db.createBills([newBill('bill-1')]);
+
+    await sync.syncNow();
+
+    expect(stub.fetch).not.toHaveBeenCalled();
+    expect(sync.getSyncStatus()).toMatchObject({ state: 'offline', pending: 1 });
+  });
+
+  it('records a database failure in the status instead of throwing', async () => {
+    vi.doMock('./db', async importOriginal => ({
+      ...await importOriginal<typeof import('./db')>(),
+      getSettings: async () => {
+        throw new Error('The database connection is closing');
+      },
+    }));
+    const sync = await import('./sync');
+
+    await expect(sync.syncNow()).resolves.toBeUndefined();
+
+    expect(sync.getSyncStatus()).toMatchObject({ state: 'error', failures: 1, lastError: 'The database connection is closing' });
+    vi.doUnmock('./db');
+  });
+
+  it('doubles the retry delay up to five minutes', async () => {
+    const { sync } = await setUp();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect([1, 2, 3, 4].map(sync.getRetryDelay)).toEqual([5_000, 10_000, 20_000, 40_000]);
+    expect(sync.getRetryDelay(20)).toBe(5 * 60_000);
+  });
+});
@@ -0,0 +1,257 @@
+import { AppSettings, Bill, CreditNote, OutboxEntry } from '@/types';
+import { acknowledgeSynced, countOutbox, getOutboxBatch, getSettings } from './db';
+import { formatItemName, getChargesTotal, getOrderType } from './billing';
+import { formatPayments, getBillPayments } from './payments';
+
+const BATCH_SIZE = 50;
+const POLL_INTERVAL = 30_000;
+const RETRY_BASE = 5_000;
+const RETRY_MAX = 5 * 60_000;
+const STATUS_KEY = 'pos_sync_status';
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  lastSyncAt?: string;
+  lastError?: string;
+  // Consecutive failed attempts; decides the retry delay
+  failures: number;
+  nextRetryAt?: string;
+}
+
+// What the Apps Script web app replies after storing a batch
+interface SyncResponse {
+  ok: boolean;
+  ids?: string[];
+  error?: string;
+}
+
+function loadStatus(): SyncStatus {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STATUS_KEY) || '{}');
+    return { state: 'idle', pending: 0, failures: 0, lastSyncAt: saved.lastSyncAt, lastError: saved.lastError };
+  } catch {
+    return { state: 'idle', pending: 0, failures: 0 };
+  }
+}
+
+let status: SyncStatus = loadStatus();
+const listeners = new Set<(status: SyncStatus) => void>();
+
+function setStatus(changes: Partial<SyncStatus>): void {
+  status = { ...status, ...changes };
+  localStorage.setItem(STATUS_KEY, JSON.stringify({ lastSyncAt: status.lastSyncAt, lastError: status.lastError }));
+  listeners.forEach(listener => listener(status));
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Delay before the next attempt after `failures` failures in a row, with
+// jitter so several tills coming back online do not retry together
+export function getRetryDelay(failures: number): number {
+  const delay = Math.min(RETRY_BASE * 2 ** (failures - 1), RETRY_MAX);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// One row per document; the sheet keeps a row per id and overwrites it when
+// a document is sent again, e.g. after it is voided
+export function toBillRow(bill: Bill) {
+  return {
+    id: bill.id,
+    billNumber: bill.billNumber,
+    date: bill.createdAt,
+    orderType: getOrderType(bill),
+    table: bill.tableName || '',
+    cashier: bill.createdByName,
+    customer: bill.customerName || '',
+    customerGstin: bill.customerGstin || '',
+    items: bill.items.map(item => `${formatItemName(item)} x${item.quantity}`).join('; '),
+    subtotal: bill.subtotal,
+    discount: bill.discountTotal || 0,
+    charges: getChargesTotal(bill),
+    cgst: bill.cgst,
+    sgst: bill.sgst,
+    igst: bill.igst || 0,
+    roundOff: bill.roundOff || 0,
+    total: bill.total,
+    payment: formatPayments(getBillPayments(bill)),
+    status: bill.void ? 'void' : 'paid',
+    voidReason: bill.void?.reason || '',
+  };
+}
+
+export function toCreditNoteRow(creditNote: CreditNote) {
+  return {
+    id: creditNote.id,
+    creditNoteNumber: creditNote.creditNoteNumber,
+    billNumber: creditNote.billNumber,
+    date: creditNote.createdAt,
+    issuedBy: creditNote.createdByName,
+    items: creditNote.items.map(item => `${formatItemName(item)} x${item.quantity}`).join('; '),
+    taxableAmount: creditNote.taxableAmount,
+    cgst: creditNote.cgst,
+    sgst: creditNote.sgst,
+    igst: creditNote.igst || 0,
+    total: creditNote.total,
+    refundMethod: creditNote.refundMethod,
+    reason: creditNote.reason,
+  };
+}
+
+// Sends one batch and returns how many documents were acknowledged. The body
+// is sent as text/plain so the browser skips the CORS preflight, which Apps
+// Script web apps do not answer.
+async function pushBatch(url: string, settings: AppSettings): Promise<number> {
+  const batch = await getOutboxBatch(BATCH_SIZE);
+  if (batch.entries.length === 0) return 0;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+    body: JSON.stringify({
+      shop: settings.shopName,
+      sentAt: new Date().toISOString(),
+      bills: batch.bills.map(toBillRow),
+      creditNotes: batch.creditNotes.map(toCreditNoteRow),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Sync endpoint returned ${response.status}`);
+  }
+
+  let result: SyncResponse;
+  try {
+    result = await response.json();
+  } catch {
+    throw new Error('Sync endpoint did not reply with JSON; check the web app URL and access settings');
+  }
+  if (!result.ok) {
+    throw new Error(result.error || 'Sync endpoint rejected the batch');
+  }
+
+  // Entries whose document no longer exists are dropped with the batch
+  const sent = new Set([...batch.bills, ...batch.creditNotes].map(document => document.id));
+  const acknowledged = new Set(result.ids || []);
+  const done: OutboxEntry[] = batch.entries.filter(entry => !sent.has(entry.documentId) || acknowledged.has(entry.documentId));
+  await acknowledgeSynced(done);
+  if (done.length === 0) {
+    throw new Error('Sync endpoint did not acknowledge any documents');
+  }
+  return done.length;
+}
+
+let running: Promise<void> | null = null;
+
+// Pushes the whole outbox, batch by batch. Errors are recorded in the status
+// rather than thrown; the worker decides when to try again.
+export function syncNow(): Promise<void> {
+  if (running) return running;
+
+  running = (async () => {
+    try {
+      const settings = await getSettings();
+      const url = settings?.googleSheetsUrl?.trim();
+      if (!settings || !url) {
+        setStatus({ state: 'disabled', pending: await countOutbox() });
+        return;
+      }
+      if (!navigator.onLine) {
+        setStatus({ state: 'offline', pending: await countOutbox() });
+        return;
+      }
+
+      setStatus({ state: 'syncing', pending: await countOutbox() });
+      while (await pushBatch(url, settings) > 0) {
+        setStatus({ pending: await countOutbox() });
+        if (status.pending === 0) break;
+      }
+      setStatus({
+        state: 'idle',
+        pending: await countOutbox(),
+        lastSyncAt: new Date().toISOString(),
+        lastError: undefined,
+        failures: 0,
+        nextRetryAt: undefined,
+      });
+    } catch (error) {
+      console.error('Cloud sync failed:', error);
+      const failures = status.failures + 1;
+      setStatus({
+        state: navigator.onLine ? 'error' : 'offline',
+        // The database itself may be what failed
+        pending: await countOutbox().catch(() => status.pending),
+        lastError: error instanceof Error ? error.message : 'Sync failed',
+        failures,
+        nextRetryAt: new Date(Date.now() + getRetryDelay(failures)).toISOString(),
+      });
+    }
+  })().finally(() => {
+    running = null;
+  });
+
+  return running;
+}
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let workerStarted = false;
+
+function schedule(delay: number): void {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(runWorker, delay);
+}
+
+// Always schedules the next run, so one failure cannot stop the worker
+async function runWorker(): Promise<void> {
+  try {
+    const settings = await getSettings();
+    if (settings?.autoSync) {
+      await syncNow();
+    } else {
+      setStatus({ state: settings?.googleSheetsUrl ? 'idle' : 'disabled', pending: await countOutbox() });
+    }
+  } catch (error) {
+    console.error('Cloud sync worker failed:', error);
+  } finally {
+    const retryIn = status.nextRetryAt ? new Date(status.nextRetryAt).getTime() - Date.now() : 0;
+    schedule(status.failures > 0 ? Math.max(retryIn, 0) : POLL_INTERVAL);
+  }
+}
+
+const handleOnline = () => {
+  setStatus({ failures: 0, nextRetryAt: undefined });
+  schedule(0);
+};
+
+const handleOffline = () => setStatus({ state: 'offline' });
+
+// Starts the background worker; returns a function that stops it
+export function startSyncWorker(): () => void {
+  if (workerStarted) return () => undefined;
+  workerStarted = true;
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  schedule(0);
+
+  return () => {
+    workerStarted = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+}
+
+// Asks the worker to push soon, e.g. right after a bill is saved
+export function requestSync(): void {
+  if (workerStarted && status.failures === 0 && status.state !== 'syncing') schedule(1_000);
+}
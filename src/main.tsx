@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { registerServiceWorker, requestPersistentStorage } from "./lib/pwa";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
+requestPersistentStorage();
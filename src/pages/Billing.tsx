@@ -1,8 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { 
   Select,
   SelectContent,
@@ -10,45 +12,309 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { getAllMenuItems, createBill, getLastBillNumber, getSettings } from '@/lib/db';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  getAllMenuItems,
+  getSettings,
+  getAllTables,
+  getOpenOrderByTable,
+  saveOpenOrder,
+  settleOpenOrder,
+  createKot,
+  getKotsByOrder,
+  holdOrder,
+  getHeldOrders,
+  recallHeldOrder,
+  deleteHeldOrder,
+  getAllModifierGroups,
+  createBills,
+} from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth';
-import { MenuItem, BillItem, Bill, AppSettings } from '@/types';
-import { Plus, Minus, Trash2, ShoppingCart, Printer, Receipt } from 'lucide-react';
+import {
+  MenuItem,
+  MenuItemVariant,
+  BillItem,
+  BillItemModifier,
+  Bill,
+  DiningTable,
+  OpenOrder,
+  Kot,
+  KotItem,
+  Discount,
+  PaymentTender,
+  SplitMode,
+  OrderType,
+} from '@/types';
+import {
+  Plus,
+  Minus,
+  Trash2,
+  ShoppingCart,
+  Printer,
+  Receipt,
+  ChefHat,
+  Pause,
+  Clock,
+  StickyNote,
+  Percent,
+  Split,
+} from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { printBill } from '@/lib/print';
+import { useStoreQuery } from '@/hooks/use-store-query';
+import { printBill, printKots } from '@/lib/print';
+import { diffKotItems, toKotItems } from '@/lib/kot';
+import {
+  getLineKey,
+  getLineSignature,
+  formatItemName,
+  getModifiersTotal,
+  getApplicableModifierGroups,
+  calculateTotals,
+  BillTotals,
+  getLineTaxFields,
+  summarizeTaxByRate,
+  formatDiscount,
+  DEFAULT_DISCOUNT_REASONS,
+  getApplicableCharges,
+  ORDER_TYPES,
+} from '@/lib/billing';
+import { DiscountDialog } from '@/components/DiscountDialog';
+import { GST_STATES, getStateCode, getStateName, isInterStateSupply, isValidGstin } from '@/lib/gst';
+import { PaymentTenders } from '@/components/PaymentTenders';
+import { SplitBillDialog, SplitPart } from '@/components/SplitBillDialog';
+import { getPaidAmount, getChangeDue } from '@/lib/payments';
+import { requestSync } from '@/lib/sync';
+import { requestReplication } from '@/lib/replication';
+import { setBillInProgress } from '@/lib/pwa';
+import { ItemOptionsDialog } from '@/components/ItemOptionsDialog';
 
 export default function Billing() {
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const menuQuery = useStoreQuery(['menuItems'], ['available'], async () => (await getAllMenuItems()).filter(item => item.isAvailable));
+  const settingsQuery = useStoreQuery(['settings'], [], async () => (await getSettings()) || null);
+  const tablesQuery = useStoreQuery(['tables'], [], getAllTables);
+  const heldOrdersQuery = useStoreQuery(['heldOrders'], [], getHeldOrders);
+  const modifierGroupsQuery = useStoreQuery(['modifierGroups'], [], getAllModifierGroups);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tableId = searchParams.get('table');
+  const tableOrderQuery = useStoreQuery(['openOrders'], ['by-table', tableId], async () => (
+    tableId ? (await getOpenOrderByTable(tableId)) || null : null
+  ));
+  const menuItems = menuQuery.data || [];
+  const settings = settingsQuery.data || null;
+  const tables = tablesQuery.data || [];
+  const heldOrders = heldOrdersQuery.data || [];
+  const modifierGroups = modifierGroupsQuery.data || [];
+  const loadFailed = menuQuery.isError || settingsQuery.isError || tablesQuery.isError || heldOrdersQuery.isError || modifierGroupsQuery.isError;
   const [cart, setCart] = useState<BillItem[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [customerName, setCustomerName] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card' | 'upi'>('cash');
-  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [customerGstin, setCustomerGstin] = useState('');
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
+  const [waivedCharges, setWaivedCharges] = useState<string[]>([]);
+  // Order type of a counter order; table orders are always dine-in
+  const [counterOrderType, setCounterOrderType] = useState<OrderType>('takeaway');
+  const [pickupName, setPickupName] = useState('');
+  const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [deliveryPerson, setDeliveryPerson] = useState('');
+  const [payments, setPayments] = useState<PaymentTender[]>([]);
+  // The table's open order as last written. A ref rather than state, so a
+  // second tap before the next render still finds the order the first created.
+  const activeOrderRef = useRef<OpenOrder | null>(null);
+  // Order writes run one after another, in the order they were made
+  const orderWrites = useRef<Promise<void>>(Promise.resolve());
+  const pendingWrites = useRef(0);
+  // When the last order write finished; the table's order is only shown
+  // again from a read made after it, so an older read cannot undo an edit
+  const lastWriteAt = useRef(0);
+  // The table whose order the cart shows
+  const shownTableId = useRef<string | null>(null);
+  const [firedItems, setFiredItems] = useState<KotItem[]>([]);
+  const [counterOrderId, setCounterOrderId] = useState<string | null>(null);
+  const [isHeldDialogOpen, setIsHeldDialogOpen] = useState(false);
+  const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null);
+  const [billDiscount, setBillDiscount] = useState<Discount | undefined>(undefined);
+  // 'bill' or the line key of the cart line being discounted
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  const [isSplitOpen, setIsSplitOpen] = useState(false);
   const { toast } = useToast();
   const user = getCurrentUser();
+  const activeTable = tables.find(table => table.id === tableId) || null;
+  // Place of supply follows the customer's GSTIN unless it is picked by hand
+  const effectivePlaceOfSupply = placeOfSupply || getStateCode(customerGstin) || getStateCode(settings?.shopGST);
+  const interState = isInterStateSupply(settings?.shopGST, effectivePlaceOfSupply);
+  const orderType: OrderType = activeTable ? 'dine-in' : counterOrderType;
+  const applicableCharges = getApplicableCharges(settings, orderType);
+  const charges = applicableCharges.filter(charge => !waivedCharges.includes(charge.id));
 
   useEffect(() => {
-    loadData();
-  }, []);
+    if (!loadFailed) return;
+    toast({
+      title: 'Error',
+      description: 'Failed to load menu items',
+      variant: 'destructive',
+    });
+  }, [loadFailed, toast]);
 
-  const loadData = async () => {
-    try {
-      const [items, settingsData] = await Promise.all([
-        getAllMenuItems(),
-        getSettings(),
-      ]);
-      setMenuItems(items.filter(item => item.isAvailable));
-      setSettings(settingsData || null);
-    } catch (error) {
-      console.error('Failed to load data:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to load menu items',
-        variant: 'destructive',
-      });
+  // Holds back the app update prompt while a bill is being entered
+  useEffect(() => {
+    setBillInProgress(cart.length > 0);
+  }, [cart.length]);
+
+  useEffect(() => () => setBillInProgress(false), []);
+
+  useEffect(() => {
+    if (!tableOrderQuery.isError) return;
+    toast({
+      title: 'Error',
+      description: 'Failed to load the table order',
+      variant: 'destructive',
+    });
+  }, [tableOrderQuery.isError, toast]);
+
+  // Shows the table's order as saved, with changes made on other screens,
+  // once this screen's own writes have landed
+  const { data: tableOrder, dataUpdatedAt: tableOrderReadAt, refetch: refetchTableOrder } = tableOrderQuery;
+  useEffect(() => {
+    if (!tableId) {
+      activeOrderRef.current = null;
+      shownTableId.current = null;
+      return;
+    }
+    if (tableOrder === undefined || pendingWrites.current > 0 || tableOrderReadAt < lastWriteAt.current) return;
+
+    const shown = activeOrderRef.current;
+    if (shownTableId.current === tableId && shown?.id === tableOrder?.id && shown?.updatedAt === tableOrder?.updatedAt) return;
+    shownTableId.current = tableId;
+    activeOrderRef.current = tableOrder;
+    setCart(tableOrder?.items || []);
+    setFiredItems(tableOrder?.firedItems || []);
+    setBillDiscount(tableOrder?.discount);
+    setCustomerName(tableOrder?.customerName || '');
+    setCustomerPhone(tableOrder?.customerPhone || '');
+    setCustomerGstin(tableOrder?.customerGstin || '');
+    setPlaceOfSupply(tableOrder?.placeOfSupply || '');
+    setWaivedCharges(tableOrder?.waivedCharges || []);
+  }, [tableId, tableOrder, tableOrderReadAt]);
+
+  const handleTableChange = async (value: string) => {
+    const nextTableId = value === 'counter' ? null : value;
+    if (nextTableId === tableId) return;
+
+    // A counter order moves onto a free table; anything else is left behind
+    if (!tableId && nextTableId && cart.length > 0) {
+      const existing = await getOpenOrderByTable(nextTableId);
+      if (!existing) {
+        const table = tables.find(t => t.id === nextTableId);
+        if (table) await persistOrder({}, table, null, counterOrderId || undefined);
+      } else if (!confirm('This table already has an order. Discard the current counter order?')) {
+        return;
+      }
+    }
+
+    if (tableId && !nextTableId) {
+      setCart([]);
+      setFiredItems([]);
+      setBillDiscount(undefined);
+      setCustomerName('');
+      setCustomerPhone('');
+      setCustomerGstin('');
+      setPlaceOfSupply('');
+      setWaivedCharges([]);
+      resetOrderDetails();
+    }
+    setCounterOrderId(null);
+    setSearchParams(nextTableId ? { table: nextTableId } : {});
+  };
+
+  // Writes the cart of the selected table back to its open order
+  const persistOrder = (
+    changes: Partial<Pick<OpenOrder, 'items' | 'firedItems' | 'discount' | 'placeOfSupply' | 'waivedCharges'>> = {},
+    table: DiningTable | null = activeTable,
+    order: OpenOrder | null = activeOrderRef.current,
+    newOrderId: string = `order-${Date.now()}`,
+  ): Promise<void> => {
+    if (!table || !user) return orderWrites.current;
+
+    const now = new Date().toISOString();
+    const details = {
+      items: cart,
+      firedItems,
+      discount: billDiscount,
+      customerName: customerName || undefined,
+      customerPhone: customerPhone || undefined,
+      customerGstin: customerGstin || undefined,
+      placeOfSupply: placeOfSupply || undefined,
+      waivedCharges: waivedCharges.length > 0 ? waivedCharges : undefined,
+      ...changes,
+    };
+    const nextOrder: OpenOrder = order
+      ? { ...order, ...details, updatedAt: now }
+      : {
+          id: newOrderId,
+          tableId: table.id,
+          tableName: table.name,
+          ...details,
+          createdBy: user.id,
+          createdByName: user.name,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+    const isOpen = details.items.length > 0 || details.firedItems.length > 0;
+    if (table.id === tableId) activeOrderRef.current = isOpen ? nextOrder : null;
+
+    pendingWrites.current++;
+    orderWrites.current = orderWrites.current.then(async () => {
+      try {
+        await saveOpenOrder(nextOrder);
+      } catch (error) {
+        console.error('Failed to save table order:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to save the table order',
+          variant: 'destructive',
+        });
+        // Nothing was written, so read the order again to show it as saved
+        refetchTableOrder();
+      } finally {
+        pendingWrites.current--;
+        lastWriteAt.current = Date.now();
+      }
+    });
+    return orderWrites.current;
+  };
+
+  const updateCart = (items: BillItem[]) => {
+    setCart(items);
+    persistOrder({ items });
+  };
+
+  const applyDiscount = (discount: Discount | undefined) => {
+    if (discountTarget === 'bill') {
+      setBillDiscount(discount);
+      persistOrder({ discount });
+    } else if (discountTarget) {
+      updateCart(cart.map(item =>
+        getLineKey(item) === discountTarget ? { ...item, discount } : item
+      ));
     }
+    setDiscountTarget(null);
+  };
+
+  const toggleChargeWaived = (chargeId: string) => {
+    const next = waivedCharges.includes(chargeId)
+      ? waivedCharges.filter(id => id !== chargeId)
+      : [...waivedCharges, chargeId];
+    setWaivedCharges(next);
+    persistOrder({ waivedCharges: next.length > 0 ? next : undefined });
   };
 
   const categories = ['all', ...Array.from(new Set(menuItems.map(item => item.category)))];
@@ -59,29 +325,67 @@ export default function Billing() {
     return matchesCategory && matchesSearch;
   });
 
-  const addToCart = (item: MenuItem) => {
-    const existingItem = cart.find(cartItem => cartItem.menuItemId === item.id);
+  const handleItemClick = (item: MenuItem) => {
+    if (item.variants?.length || getApplicableModifierGroups(item, modifierGroups).length > 0) {
+      setOptionsItem(item);
+      return;
+    }
+    addToCart(item);
+  };
+
+  const addToCart = (
+    item: MenuItem,
+    variant?: MenuItemVariant,
+    modifiers: BillItemModifier[] = [],
+    notes: string = '',
+  ) => {
+    const signature = getLineSignature({
+      menuItemId: item.id,
+      variantId: variant?.id,
+      modifiers,
+      notes,
+    });
+    const existingItem = cart.find(cartItem => getLineSignature(cartItem) === signature);
     
     if (existingItem) {
-      setCart(cart.map(cartItem =>
-        cartItem.menuItemId === item.id
+      updateCart(cart.map(cartItem =>
+        cartItem === existingItem
           ? { ...cartItem, quantity: cartItem.quantity + 1, subtotal: (cartItem.quantity + 1) * cartItem.price }
           : cartItem
       ));
     } else {
-      setCart([...cart, {
+      const price = (variant ? variant.price : item.price) + getModifiersTotal(modifiers);
+      updateCart([...cart, {
+        lineId: `line-${Date.now()}`,
         menuItemId: item.id,
         name: item.name,
-        price: item.price,
+        variantId: variant?.id,
+        variantName: variant?.name,
+        modifiers: modifiers.length > 0 ? modifiers : undefined,
+        notes: notes || undefined,
+        price,
         quantity: 1,
-        subtotal: item.price,
+        subtotal: price,
+        ...getLineTaxFields(item.tax),
       }]);
     }
+    setOptionsItem(null);
+  };
+
+  const editLineNotes = (lineKey: string) => {
+    const line = cart.find(item => getLineKey(item) === lineKey);
+    if (!line) return;
+
+    const notes = prompt(`Instructions for ${formatItemName(line)}`, line.notes || '');
+    if (notes === null) return;
+    updateCart(cart.map(item =>
+      getLineKey(item) === lineKey ? { ...item, notes: notes.trim() || undefined } : item
+    ));
   };
 
-  const updateQuantity = (menuItemId: string, delta: number) => {
-    setCart(cart.map(item => {
-      if (item.menuItemId === menuItemId) {
+  const updateQuantity = (lineKey: string, delta: number) => {
+    updateCart(cart.map(item => {
+      if (getLineKey(item) === lineKey) {
         const newQuantity = item.quantity + delta;
         if (newQuantity <= 0) return item;
         return {
@@ -94,17 +398,191 @@ export default function Billing() {
     }));
   };
 
-  const removeFromCart = (menuItemId: string) => {
-    setCart(cart.filter(item => item.menuItemId !== menuItemId));
+  const removeFromCart = (lineKey: string) => {
+    updateCart(cart.filter(item => getLineKey(item) !== lineKey));
   };
 
-  const calculateTotals = () => {
-    const subtotal = cart.reduce((sum, item) => sum + item.subtotal, 0);
-    const cgst = subtotal * (settings?.cgstRate || 2.5) / 100;
-    const sgst = subtotal * (settings?.sgstRate || 2.5) / 100;
-    const total = subtotal + cgst + sgst;
-    
-    return { subtotal, cgst, sgst, total };
+  const handleFireKot = async () => {
+    if (!user || !settings) return;
+
+    const { added, cancelled } = diffKotItems(cart, firedItems);
+    if (added.length === 0 && cancelled.length === 0) {
+      toast({
+        title: 'Nothing to Send',
+        description: 'All items have already been sent to the kitchen',
+      });
+      return;
+    }
+
+    try {
+      const orderId = activeOrderRef.current?.id || counterOrderId || `order-${Date.now()}`;
+      const kots: Kot[] = [];
+      for (const [type, items] of [['new', added], ['cancel', cancelled]] as const) {
+        if (items.length === 0) continue;
+        const kot: Kot = {
+          id: `kot-${Date.now()}-${type}`,
+          kotNumber: '',
+          type,
+          orderId,
+          tableId: activeTable?.id,
+          tableName: activeTable?.name,
+          orderType,
+          items,
+          createdBy: user.id,
+          createdByName: user.name,
+          createdAt: new Date().toISOString(),
+        };
+        kots.push(await createKot(kot));
+      }
+
+      const fired = toKotItems(cart);
+      setFiredItems(fired);
+      if (activeTable) {
+        await persistOrder({ firedItems: fired }, activeTable, activeOrderRef.current, orderId);
+      } else {
+        setCounterOrderId(orderId);
+      }
+
+      printKots(kots, settings);
+      toast({
+        title: 'Sent to Kitchen',
+        description: kots.map(kot => kot.kotNumber).join(', '),
+      });
+    } catch (error) {
+      console.error('Failed to send KOT:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send order to kitchen',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const resetOrderDetails = () => {
+    setCounterOrderType('takeaway');
+    setPickupName('');
+    setDeliveryAddress('');
+    setDeliveryPerson('');
+  };
+
+  const resetCounterOrder = () => {
+    setCart([]);
+    setFiredItems([]);
+    setBillDiscount(undefined);
+    setCounterOrderId(null);
+    setCustomerName('');
+    setCustomerPhone('');
+    setCustomerGstin('');
+    setPlaceOfSupply('');
+    setWaivedCharges([]);
+    resetOrderDetails();
+    setPayments([]);
+  };
+
+  const handleHoldOrder = async () => {
+    if (!user || cart.length === 0) return;
+
+    try {
+      await holdOrder({
+        id: `held-${Date.now()}`,
+        items: cart,
+        customerName: customerName || undefined,
+        customerPhone: customerPhone || undefined,
+        customerGstin: customerGstin || undefined,
+        placeOfSupply: placeOfSupply || undefined,
+        payments,
+        discount: billDiscount,
+        waivedCharges: waivedCharges.length > 0 ? waivedCharges : undefined,
+        orderType: counterOrderType,
+        pickupName: pickupName || undefined,
+        deliveryAddress: deliveryAddress || undefined,
+        deliveryPerson: deliveryPerson || undefined,
+        orderId: counterOrderId || undefined,
+        firedItems,
+        heldBy: user.id,
+        heldByName: user.name,
+        heldAt: new Date().toISOString(),
+      });
+      resetCounterOrder();
+      toast({
+        title: 'Order Held',
+        description: 'The order has been parked and can be recalled later',
+      });
+    } catch (error) {
+      console.error('Failed to hold order:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to hold order',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRecallOrder = async (id: string) => {
+    if (cart.length > 0 && !confirm('Replace the current cart with the held order?')) return;
+
+    try {
+      const order = await recallHeldOrder(id);
+      if (!order) {
+        toast({
+          title: 'Not Found',
+          description: 'This order was already recalled or discarded',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setCart(order.items);
+      setFiredItems(order.firedItems || []);
+      setBillDiscount(order.discount);
+      setCounterOrderId(order.orderId || null);
+      setCustomerName(order.customerName || '');
+      setCustomerPhone(order.customerPhone || '');
+      setCustomerGstin(order.customerGstin || '');
+      setPlaceOfSupply(order.placeOfSupply || '');
+      setWaivedCharges(order.waivedCharges || []);
+      setCounterOrderType(order.orderType || 'takeaway');
+      setPickupName(order.pickupName || '');
+      setDeliveryAddress(order.deliveryAddress || '');
+      setDeliveryPerson(order.deliveryPerson || '');
+      setPayments(order.payments || []);
+      setIsHeldDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to recall order:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to recall order',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDiscardHeldOrder = async (id: string) => {
+    if (!confirm('Discard this held order?')) return;
+
+    try {
+      await deleteHeldOrder(id);
+    } catch (error) {
+      console.error('Failed to discard held order:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to discard held order',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Delivery bills must say where the order went
+  const checkDeliveryDetails = (): boolean => {
+    if (orderType === 'delivery' && !deliveryAddress.trim()) {
+      toast({
+        title: 'Address Required',
+        description: 'Enter the delivery address before billing a delivery order',
+        variant: 'destructive',
+      });
+      return false;
+    }
+    return true;
   };
 
   const handleSaveBill = async (shouldPrint: boolean = false) => {
@@ -126,54 +604,158 @@ export default function Billing() {
       return;
     }
 
-    try {
-      const billNumber = await getLastBillNumber();
-      const { subtotal, cgst, sgst, total } = calculateTotals();
+    if (customerGstin && !isValidGstin(customerGstin)) {
+      toast({
+        title: 'Invalid GSTIN',
+        description: 'Check the customer GSTIN or leave it blank',
+        variant: 'destructive',
+      });
+      return;
+    }
 
-      const bill: Bill = {
-        id: `bill-${Date.now()}`,
-        billNumber,
-        items: cart,
-        subtotal,
-        cgst,
-        sgst,
-        total,
-        createdBy: user.id,
-        createdByName: user.name,
-        createdAt: new Date().toISOString(),
-        paymentMethod,
-        customerName: customerName || undefined,
-        customerPhone: customerPhone || undefined,
-        syncedToCloud: false,
-      };
+    if (!checkDeliveryDetails()) return;
 
-      await createBill(bill);
+    const totals = calculateTotals(cart, settings, billDiscount, interState, charges);
+    // Without any tenders entered the whole amount is taken as cash
+    const tenders: PaymentTender[] = payments.length > 0
+      ? payments
+      : [{ method: 'cash', amount: totals.total }];
+    if (Math.abs(getPaidAmount(tenders) - totals.total) >= 0.01) {
+      toast({
+        title: 'Payment Mismatch',
+        description: `Payments add up to ${currency}${getPaidAmount(tenders).toFixed(2)} but the bill is ${currency}${totals.total.toFixed(2)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
 
+    try {
+      const bill = await buildBill(totals, tenders);
+      await settleBills([bill], shouldPrint);
+    } catch (error) {
+      console.error('Failed to save bill:', error);
       toast({
-        title: 'Bill Saved',
-        description: `Bill ${billNumber} saved successfully!`,
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save bill',
+        variant: 'destructive',
       });
+    }
+  };
 
-      if (shouldPrint) {
-        printBill(bill, settings);
-      }
+  const handleSplitBills = async (mode: SplitMode, parts: SplitPart[]) => {
+    if (!user || !settings || !checkDeliveryDetails()) return;
 
-      // Reset form
-      setCart([]);
-      setCustomerName('');
-      setCustomerPhone('');
-      setPaymentMethod('cash');
+    try {
+      const groupId = `split-${Date.now()}`;
+      const bills: Bill[] = [];
+      for (const [index, part] of parts.entries()) {
+        const partTotals = calculateTotals(part.items, settings, part.discount, interState, part.charges);
+        const bill = await buildBill(
+          partTotals,
+          [{ method: part.method, amount: partTotals.total }],
+        );
+        bills.push({
+          ...bill,
+          id: `${bill.id}-${index + 1}`,
+          split: { groupId, mode, index: index + 1, count: parts.length },
+        });
+      }
+      const saved = await settleBills(bills, false);
+      setIsSplitOpen(false);
+      if (confirm(`Print ${saved.length} bills?`)) {
+        printBill(saved, settings);
+      }
     } catch (error) {
-      console.error('Failed to save bill:', error);
+      console.error('Failed to split bill:', error);
       toast({
         title: 'Error',
-        description: 'Failed to save bill',
+        description: error instanceof Error ? error.message : 'Failed to split bill',
         variant: 'destructive',
       });
     }
   };
 
-  const { subtotal, cgst, sgst, total } = calculateTotals();
+  // Builds a bill for the current customer, table and KOTs from calculated
+  // totals; the bill number is assigned when it is saved
+  const buildBill = async (totals: BillTotals, tenders: PaymentTender[]): Promise<Bill> => {
+    const orderId = activeOrderRef.current?.id || counterOrderId || undefined;
+    const kots = orderId ? await getKotsByOrder(orderId) : [];
+    const waivedNames = applicableCharges
+      .filter(charge => waivedCharges.includes(charge.id))
+      .map(charge => charge.name);
+
+    return {
+      id: `bill-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      billNumber: '',
+      items: totals.items,
+      subtotal: totals.subtotal,
+      discount: totals.discount,
+      discountTotal: totals.discountTotal,
+      taxableAmount: totals.taxableAmount,
+      taxInclusive: totals.taxInclusive || undefined,
+      charges: totals.charges.length > 0 ? totals.charges : undefined,
+      waivedCharges: waivedNames.length > 0 ? waivedNames : undefined,
+      cgst: totals.cgst,
+      sgst: totals.sgst,
+      igst: totals.igst || undefined,
+      roundOff: totals.roundOff || undefined,
+      total: totals.total,
+      createdBy: user.id,
+      createdByName: user.name,
+      createdAt: new Date().toISOString(),
+      payments: tenders,
+      changeDue: getChangeDue(tenders) || undefined,
+      customerName: customerName || undefined,
+      customerPhone: customerPhone || undefined,
+      customerGstin: customerGstin.trim().toUpperCase() || undefined,
+      placeOfSupply: effectivePlaceOfSupply,
+      orderType,
+      pickupName: orderType === 'takeaway' ? pickupName.trim() || undefined : undefined,
+      deliveryAddress: orderType === 'delivery' ? deliveryAddress.trim() : undefined,
+      deliveryPerson: orderType === 'delivery' ? deliveryPerson.trim() || undefined : undefined,
+      tableId: activeTable?.id,
+      tableName: activeTable?.name,
+      orderId,
+      kotNumbers: kots.length > 0 ? kots.map(kot => kot.kotNumber) : undefined,
+      syncedToCloud: false,
+    };
+  };
+
+  const settleBills = async (bills: Bill[], shouldPrint: boolean): Promise<Bill[]> => {
+    // A write still queued would bring the settled order back
+    await orderWrites.current;
+    const order = activeOrderRef.current;
+    const saved = order
+      ? await settleOpenOrder(order, bills)
+      : await createBills(bills);
+    requestSync();
+    requestReplication();
+
+    toast({
+      title: saved.length > 1 ? 'Bills Saved' : 'Bill Saved',
+      description: `Bill ${saved.map(bill => bill.billNumber).join(', ')} saved successfully!`,
+    });
+
+    if (shouldPrint && settings) {
+      printBill(saved, settings);
+    }
+
+    // Reset form
+    resetCounterOrder();
+    if (activeTable) {
+      activeOrderRef.current = null;
+      setSearchParams({});
+    }
+    return saved;
+  };
+
+  const totals = calculateTotals(cart, settings, billDiscount, interState, charges);
+  const { subtotal, cgst, sgst, igst, total } = totals;
+  const taxRates = summarizeTaxByRate(totals.items, totals.charges);
+  const currency = settings?.currency || '₹';
+  const discountLine = discountTarget && discountTarget !== 'bill'
+    ? cart.find(item => getLineKey(item) === discountTarget)
+    : undefined;
 
   return (
     <div className="p-6 space-y-6">
@@ -182,8 +764,105 @@ export default function Billing() {
           <h1 className="text-4xl font-bold">Billing</h1>
           <p className="text-muted-foreground">Create new bills and manage orders</p>
         </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsHeldDialogOpen(true)}
+            disabled={!!activeTable}
+          >
+            <Clock className="mr-2 h-4 w-4" />
+            Held ({heldOrders.length})
+          </Button>
+          <Select value={tableId || 'counter'} onValueChange={handleTableChange}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="counter">Counter (No Table)</SelectItem>
+              {tables.map(table => (
+                <SelectItem key={table.id} value={table.id}>
+                  {table.name} · {table.section}
+                  {table.status !== 'free' ? ` (${table.status})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
+      <Dialog open={isHeldDialogOpen} onOpenChange={setIsHeldDialogOpen}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>Held Orders</DialogTitle>
+            <DialogDescription>Recall a parked order or discard it</DialogDescription>
+          </DialogHeader>
+          {heldOrders.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No held orders</p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {heldOrders.map(order => (
+                <div key={order.id} className="flex items-center gap-2 p-3 rounded bg-muted">
+                  <div className="flex-1">
+                    <p className="font-semibold text-sm">
+                      {order.customerName || 'Walk-in'} · {order.items.length} items
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(order.heldAt).toLocaleString()} by {order.heldByName}
+                    </p>
+                  </div>
+                  <div className="font-bold">
+                    {settings?.currency || '₹'}
+                    {order.items.reduce((sum, item) => sum + item.subtotal, 0).toFixed(2)}
+                  </div>
+                  <Button size="sm" onClick={() => handleRecallOrder(order.id)}>
+                    Recall
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => handleDiscardHeldOrder(order.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ItemOptionsDialog
+        item={optionsItem}
+        modifierGroups={optionsItem ? getApplicableModifierGroups(optionsItem, modifierGroups) : []}
+        currency={settings?.currency || '₹'}
+        onClose={() => setOptionsItem(null)}
+        onAdd={addToCart}
+      />
+
+      <DiscountDialog
+        open={!!discountTarget}
+        title={discountLine ? `Discount on ${formatItemName(discountLine)}` : 'Bill Discount'}
+        base={discountLine ? discountLine.subtotal : subtotal - totals.itemDiscount}
+        currency={currency}
+        reasons={settings?.discountReasons?.length ? settings.discountReasons : DEFAULT_DISCOUNT_REASONS}
+        discount={discountLine ? discountLine.discount : billDiscount}
+        onClose={() => setDiscountTarget(null)}
+        onApply={applyDiscount}
+      />
+
+      <SplitBillDialog
+        open={isSplitOpen}
+        items={cart}
+        billDiscount={billDiscount}
+        charges={charges}
+        settings={settings}
+        interState={interState}
+        defaultParts={activeTable?.seats || 2}
+        onClose={() => setIsSplitOpen(false)}
+        onConfirm={handleSplitBills}
+      />
+
       <div className="grid lg:grid-cols-3 gap-6">
         {/* Menu Items Section */}
         <div className="lg:col-span-2 space-y-4">
@@ -213,14 +892,19 @@ export default function Billing() {
               <Card
                 key={item.id}
                 className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
-                onClick={() => addToCart(item)}
+                onClick={() => handleItemClick(item)}
               >
                 <CardContent className="p-4">
                   <h3 className="font-semibold text-lg mb-1">{item.name}</h3>
                   <p className="text-sm text-muted-foreground mb-2">{item.category}</p>
                   <p className="text-2xl font-bold text-primary">
-                    {settings?.currency || '₹'}{item.price}
+                    {item.variants?.length ? 'from ' : ''}{settings?.currency || '₹'}{item.price}
                   </p>
+                  {item.variants?.length ? (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {item.variants.map(variant => variant.name).join(' / ')}
+                    </p>
+                  ) : null}
                 </CardContent>
               </Card>
             ))}
@@ -233,23 +917,48 @@ export default function Billing() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <ShoppingCart className="h-5 w-5" />
-                Current Order
+                {activeTable ? `Table ${activeTable.name}` : 'Current Order'}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               {cart.length === 0 ? (
-                <p className="text-muted-foreground text-center py-8">
-                  Cart is empty. Add items from the menu.
-                </p>
+                <>
+                  <p className="text-muted-foreground text-center py-8">
+                    Cart is empty. Add items from the menu.
+                  </p>
+                  {firedItems.length > 0 && (
+                    <Button className="w-full" variant="secondary" onClick={handleFireKot}>
+                      <ChefHat className="mr-2 h-4 w-4" />
+                      Send Cancellation KOT
+                    </Button>
+                  )}
+                </>
               ) : (
                 <>
                   <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {cart.map(item => (
-                      <div key={item.menuItemId} className="flex items-center gap-2 p-2 rounded bg-muted">
+                    {totals.items.map(item => (
+                      <div key={getLineKey(item)} className="flex items-center gap-2 p-2 rounded bg-muted">
                         <div className="flex-1">
-                          <p className="font-semibold text-sm">{item.name}</p>
+                          <p className="font-semibold text-sm">{formatItemName(item)}</p>
+                          {item.modifiers?.length ? (
+                            <p className="text-xs text-muted-foreground">
+                              + {item.modifiers.map(modifier => modifier.name).join(', ')}
+                            </p>
+                          ) : null}
+                          {item.notes && (
+                            <p className="text-xs italic text-muted-foreground">{item.notes}</p>
+                          )}
+                          {item.discount && (
+                            <p className="text-xs text-green-600">
+                              -{currency}{item.discount.amount.toFixed(2)} ({formatDiscount(item.discount, currency)} · {item.discount.reason})
+                            </p>
+                          )}
                           <p className="text-xs text-muted-foreground">
                             {settings?.currency || '₹'}{item.price} × {item.quantity}
+                            {(() => {
+                              const sent = firedItems.find(f => getLineKey(f) === getLineKey(item))?.quantity || 0;
+                              return sent > 0 ? ` · ${sent} sent` : '';
+                            })()}
                           </p>
                         </div>
                         <div className="flex items-center gap-1">
@@ -257,7 +966,7 @@ export default function Billing() {
                             size="icon"
                             variant="ghost"
                             className="h-8 w-8"
-                            onClick={() => updateQuantity(item.menuItemId, -1)}
+                            onClick={() => updateQuantity(getLineKey(item), -1)}
                           >
                             <Minus className="h-4 w-4" />
                           </Button>
@@ -266,15 +975,31 @@ export default function Billing() {
                             size="icon"
                             variant="ghost"
                             className="h-8 w-8"
-                            onClick={() => updateQuantity(item.menuItemId, 1)}
+                            onClick={() => updateQuantity(getLineKey(item), 1)}
                           >
                             <Plus className="h-4 w-4" />
                           </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => setDiscountTarget(getLineKey(item))}
+                          >
+                            <Percent className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => editLineNotes(getLineKey(item))}
+                          >
+                            <StickyNote className="h-4 w-4" />
+                          </Button>
                           <Button
                             size="icon"
                             variant="ghost"
                             className="h-8 w-8 text-destructive"
-                            onClick={() => removeFromCart(item.menuItemId)}
+                            onClick={() => removeFromCart(getLineKey(item))}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -291,14 +1016,75 @@ export default function Billing() {
                       <span>Subtotal</span>
                       <span className="font-semibold">{settings?.currency || '₹'}{subtotal.toFixed(2)}</span>
                     </div>
+                    {totals.itemDiscount > 0 && (
+                      <div className="flex justify-between text-sm text-green-600">
+                        <span>Item Discounts</span>
+                        <span className="font-semibold">-{currency}{totals.itemDiscount.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
-                      <span>CGST ({settings?.cgstRate || 2.5}%)</span>
-                      <span className="font-semibold">{settings?.currency || '₹'}{cgst.toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span>SGST ({settings?.sgstRate || 2.5}%)</span>
-                      <span className="font-semibold">{settings?.currency || '₹'}{sgst.toFixed(2)}</span>
+                      <button
+                        className="flex items-center gap-1 text-primary hover:underline"
+                        onClick={() => setDiscountTarget('bill')}
+                      >
+                        <Percent className="h-3 w-3" />
+                        {totals.discount
+                          ? `Discount (${formatDiscount(totals.discount, currency)} · ${totals.discount.reason})`
+                          : 'Add Bill Discount'}
+                      </button>
+                      {totals.discount && (
+                        <span className="font-semibold text-green-600">-{currency}{totals.discount.amount.toFixed(2)}</span>
+                      )}
                     </div>
+                    {applicableCharges.map(charge => {
+                      const waived = waivedCharges.includes(charge.id);
+                      const applied = totals.charges.find(line => line.chargeId === charge.id);
+                      return (
+                        <div key={charge.id} className="flex justify-between text-sm">
+                          <button
+                            className="flex items-center gap-1 text-primary hover:underline"
+                            onClick={() => toggleChargeWaived(charge.id)}
+                          >
+                            <span className={waived ? 'line-through' : ''}>
+                              {charge.name} ({formatDiscount(charge, currency)})
+                            </span>
+                            <span className="text-xs text-muted-foreground">{waived ? 'Apply' : 'Waive'}</span>
+                          </button>
+                          <span className="font-semibold">
+                            {waived ? 'Waived' : `${currency}${(applied?.amount || 0).toFixed(2)}`}
+                          </span>
+                        </div>
+                      );
+                    })}
+                    {(totals.discountTotal > 0 || totals.taxInclusive || totals.chargesTotal > 0) && (
+                      <div className="flex justify-between text-sm">
+                        <span>Taxable Amount</span>
+                        <span className="font-semibold">{currency}{totals.taxableAmount.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {interState ? (
+                      <div className="flex justify-between text-sm">
+                        <span>IGST{taxRates.length === 1 && ` (${taxRates[0].rate}%)`}{totals.taxInclusive && ' incl.'}</span>
+                        <span className="font-semibold">{settings?.currency || '₹'}{igst.toFixed(2)}</span>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span>CGST{taxRates.length === 1 && ` (${taxRates[0].rate / 2}%)`}{totals.taxInclusive && ' incl.'}</span>
+                          <span className="font-semibold">{settings?.currency || '₹'}{cgst.toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span>SGST{taxRates.length === 1 && ` (${taxRates[0].rate / 2}%)`}{totals.taxInclusive && ' incl.'}</span>
+                          <span className="font-semibold">{settings?.currency || '₹'}{sgst.toFixed(2)}</span>
+                        </div>
+                      </>
+                    )}
+                    {totals.roundOff !== 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span>Round Off</span>
+                        <span className="font-semibold">{totals.roundOff > 0 ? '+' : '-'}{currency}{Math.abs(totals.roundOff).toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-lg font-bold border-t pt-2">
                       <span>Total</span>
                       <span className="text-primary">{settings?.currency || '₹'}{total.toFixed(2)}</span>
@@ -306,12 +1092,64 @@ export default function Billing() {
                   </div>
 
                   <div className="space-y-3">
+                    <div className="space-y-2">
+                      <Label>Order Type</Label>
+                      <Select
+                        value={orderType}
+                        onValueChange={(value) => setCounterOrderType(value as OrderType)}
+                        disabled={!!activeTable}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ORDER_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {orderType === 'takeaway' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="pickup-name">Pickup Name</Label>
+                        <Input
+                          id="pickup-name"
+                          value={pickupName}
+                          onChange={(e) => setPickupName(e.target.value)}
+                          placeholder="Name to call at pickup"
+                        />
+                      </div>
+                    )}
+                    {orderType === 'delivery' && (
+                      <>
+                        <div className="space-y-2">
+                          <Label htmlFor="delivery-address">Delivery Address</Label>
+                          <Textarea
+                            id="delivery-address"
+                            value={deliveryAddress}
+                            onChange={(e) => setDeliveryAddress(e.target.value)}
+                            placeholder="Where the order is going"
+                            rows={2}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="delivery-person">Delivery Person</Label>
+                          <Input
+                            id="delivery-person"
+                            value={deliveryPerson}
+                            onChange={(e) => setDeliveryPerson(e.target.value)}
+                            placeholder="Who is taking it"
+                          />
+                        </div>
+                      </>
+                    )}
                     <div className="space-y-2">
                       <Label htmlFor="customer-name">Customer Name (Optional)</Label>
                       <Input
                         id="customer-name"
                         value={customerName}
                         onChange={(e) => setCustomerName(e.target.value)}
+                        onBlur={() => persistOrder()}
                         placeholder="Enter customer name"
                       />
                     </div>
@@ -321,24 +1159,85 @@ export default function Billing() {
                         id="customer-phone"
                         value={customerPhone}
                         onChange={(e) => setCustomerPhone(e.target.value)}
+                        onBlur={() => persistOrder()}
                         placeholder="Enter phone number"
                       />
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="payment-method">Payment Method</Label>
-                      <Select value={paymentMethod} onValueChange={(value: any) => setPaymentMethod(value)}>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="cash">Cash</SelectItem>
-                          <SelectItem value="card">Card</SelectItem>
-                          <SelectItem value="upi">UPI</SelectItem>
-                        </SelectContent>
-                      </Select>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="customer-gstin">Customer GSTIN</Label>
+                        <Input
+                          id="customer-gstin"
+                          value={customerGstin}
+                          onChange={(e) => setCustomerGstin(e.target.value.toUpperCase())}
+                          onBlur={() => persistOrder()}
+                          placeholder="For B2B bills"
+                        />
+                        {customerGstin && !isValidGstin(customerGstin) && (
+                          <p className="text-xs text-destructive">Invalid GSTIN</p>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Place of Supply</Label>
+                        <Select
+                          value={placeOfSupply || 'auto'}
+                          onValueChange={(value) => {
+                            const next = value === 'auto' ? '' : value;
+                            setPlaceOfSupply(next);
+                            persistOrder({ placeOfSupply: next || undefined });
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">
+                              Auto{effectivePlaceOfSupply && ` (${getStateName(effectivePlaceOfSupply)})`}
+                            </SelectItem>
+                            {GST_STATES.map(state => (
+                              <SelectItem key={state.code} value={state.code}>
+                                {state.code} - {state.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                     </div>
+                    <PaymentTenders
+                      total={total}
+                      currency={currency}
+                      payments={payments}
+                      onChange={setPayments}
+                    />
                   </div>
 
+                  <div className="flex gap-2">
+                    <Button
+                      className="flex-1"
+                      variant="secondary"
+                      onClick={handleFireKot}
+                    >
+                      <ChefHat className="mr-2 h-4 w-4" />
+                      Send to Kitchen (KOT)
+                    </Button>
+                    {!activeTable && (
+                      <Button variant="outline" onClick={handleHoldOrder}>
+                        <Pause className="mr-2 h-4 w-4" />
+                        Hold
+                      </Button>
+                    )}
+                  </div>
+
+                  <Button
+                    className="w-full"
+                    variant="outline"
+                    onClick={() => setIsSplitOpen(true)}
+                    disabled={cart.length < 1}
+                  >
+                    <Split className="mr-2 h-4 w-4" />
+                    Split Bill
+                  </Button>
+
                   <div className="flex gap-2">
                     <Button
                       className="flex-1"
@@ -0,0 +1,389 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  PageCursor,
+  getBillsPage,
+  getCreditNotesByBills,
+  getCreditNotesPage,
+  getSettings,
+  voidBill,
+  createCreditNote,
+  saveBillEInvoice,
+} from '@/lib/db';
+import { getCurrentUser, hasRole } from '@/lib/auth';
+import { canVoidBill, getCreditedTotal } from '@/lib/refunds';
+import { printBill, printCreditNote } from '@/lib/print';
+import { canGenerateEInvoice, generateEInvoice } from '@/lib/einvoice';
+import { requestSync } from '@/lib/sync';
+import { requestReplication } from '@/lib/replication';
+import { RefundDialog } from '@/components/RefundDialog';
+import { EInvoiceDialog } from '@/components/EInvoiceDialog';
+import { Bill, CreditNote, AppSettings, PaymentMethod, EInvoiceBuyer } from '@/types';
+import { Search, Printer, Ban, Undo2, FileCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useStorePages, useStoreQuery } from '@/hooks/use-store-query';
+
+const BILLS_PAGE_SIZE = 50;
+const CREDIT_NOTES_PAGE_SIZE = 50;
+
+function matchesSearch(bill: Bill, query: string): boolean {
+  return bill.billNumber.toLowerCase().includes(query) ||
+    !!bill.customerName?.toLowerCase().includes(query) ||
+    !!bill.tableName?.toLowerCase().includes(query);
+}
+
+export default function Bills() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [refundBill, setRefundBill] = useState<Bill | null>(null);
+  const [einvoiceBill, setEInvoiceBill] = useState<Bill | null>(null);
+  const { toast } = useToast();
+  const user = getCurrentUser();
+
+  const query = searchQuery.trim().toLowerCase();
+
+  // Saving a bill or credit note anywhere reloads these. A search reads
+  // through every bill but only keeps a page of matches at a time.
+  const billsQuery = useStorePages(
+    ['bills'],
+    ['page', query],
+    (after?: PageCursor) => getBillsPage(undefined, after, BILLS_PAGE_SIZE, query ? bill => matchesSearch(bill, query) : undefined),
+    page => page.next
+  );
+  const bills = billsQuery.data?.pages.flatMap(page => page.bills) || [];
+  const billIds = bills.map(bill => bill.id);
+  const billCreditNotesQuery = useStoreQuery(['creditNotes'], ['by-bill', billIds], () => getCreditNotesByBills(billIds));
+  const creditNotesQuery = useStorePages(
+    ['creditNotes'],
+    ['page'],
+    (after?: PageCursor) => getCreditNotesPage(after, CREDIT_NOTES_PAGE_SIZE),
+    page => page.next
+  );
+  const settingsQuery = useStoreQuery(['settings'], [], async () => (await getSettings()) || null);
+  const billCreditNotes = billCreditNotesQuery.data || [];
+  const creditNotes = creditNotesQuery.data?.pages.flatMap(page => page.creditNotes) || [];
+  const settings: AppSettings | null = settingsQuery.data || null;
+  const currency = settings?.currency || '₹';
+  const loadFailed = billsQuery.isError || billCreditNotesQuery.isError || creditNotesQuery.isError || settingsQuery.isError;
+
+  useEffect(() => {
+    if (!loadFailed) return;
+    toast({
+      title: 'Error',
+      description: 'Failed to load bills',
+      variant: 'destructive',
+    });
+  }, [loadFailed, toast]);
+
+  const getBillCreditNotes = (bill: Bill) =>
+    billCreditNotes.filter(creditNote => creditNote.billId === bill.id);
+
+  const handleVoid = async (bill: Bill) => {
+    if (!user || !hasRole(['admin', 'manager'])) return;
+
+    const reason = prompt(`Reason for voiding ${bill.billNumber}:`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast({
+        title: 'Reason Required',
+        description: 'A bill cannot be voided without a reason',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await voidBill(bill.id, {
+        reason: reason.trim(),
+        voidedBy: user.id,
+        voidedByName: user.name,
+        voidedAt: new Date().toISOString(),
+      });
+      requestSync();
+      requestReplication();
+      toast({
+        title: 'Bill Voided',
+        description: `Bill ${bill.billNumber} has been voided`,
+      });
+    } catch (error) {
+      console.error('Failed to void bill:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to void bill',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRefund = async (quantities: Record<string, number>, reason: string, refundMethod: PaymentMethod) => {
+    if (!user || !refundBill || !hasRole(['admin', 'manager'])) return;
+
+    try {
+      const creditNote = await createCreditNote(refundBill.id, quantities, {
+        id: `cn-${Date.now()}`,
+        reason,
+        refundMethod,
+        createdBy: user.id,
+        createdByName: user.name,
+        createdAt: new Date().toISOString(),
+      });
+      requestSync();
+
+      toast({
+        title: 'Credit Note Issued',
+        description: `Credit note ${creditNote.creditNoteNumber} for ${currency}${creditNote.total.toFixed(2)}`,
+      });
+      setRefundBill(null);
+
+      if (settings && confirm('Print credit note?')) {
+        printCreditNote(creditNote, settings);
+      }
+    } catch (error) {
+      console.error('Failed to issue credit note:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to issue credit note',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleGenerateEInvoice = async (buyer: EInvoiceBuyer) => {
+    if (!einvoiceBill || !settings) return;
+
+    try {
+      const einvoice = await generateEInvoice(einvoiceBill, settings, buyer);
+      const bill = await saveBillEInvoice(einvoiceBill.id, einvoice);
+      requestSync();
+      requestReplication();
+
+      toast({
+        title: 'E-Invoice Generated',
+        description: `IRN issued for bill ${bill.billNumber}`,
+      });
+      setEInvoiceBill(null);
+
+      if (confirm('Print bill with e-invoice QR code?')) {
+        printBill(bill, settings);
+      }
+    } catch (error) {
+      console.error('Failed to generate e-invoice:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to generate e-invoice',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-4xl font-bold">Bills</h1>
+        <p className="text-muted-foreground">Void bills and issue refunds as credit notes</p>
+      </div>
+
+      <RefundDialog
+        open={!!refundBill}
+        bill={refundBill}
+        creditNotes={refundBill ? getBillCreditNotes(refundBill) : []}
+        currency={currency}
+        onClose={() => setRefundBill(null)}
+        onRefund={handleRefund}
+      />
+
+      <EInvoiceDialog
+        open={!!einvoiceBill}
+        bill={einvoiceBill}
+        settings={settings}
+        onClose={() => setEInvoiceBill(null)}
+        onGenerate={handleGenerateEInvoice}
+      />
+
+      <div className="relative max-w-md">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by bill number, customer or table..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bills</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {bills.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No bills found</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bill No.</TableHead>
+                    <TableHead>Date & Time</TableHead>
+                    <TableHead>Table / Customer</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bills.map((bill) => {
+                    const billCreditNotes = getBillCreditNotes(bill);
+                    const credited = getCreditedTotal(billCreditNotes);
+                    return (
+                      <TableRow key={bill.id} className={bill.void ? 'opacity-60' : ''}>
+                        <TableCell className="font-medium">{bill.billNumber}</TableCell>
+                        <TableCell>{new Date(bill.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>{[bill.tableName, bill.customerName].filter(Boolean).join(' · ') || '-'}</TableCell>
+                        <TableCell>
+                          {bill.void ? (
+                            <Badge variant="destructive" title={bill.void.reason}>
+                              Void · {bill.void.voidedByName}
+                            </Badge>
+                          ) : credited > 0 ? (
+                            <Badge variant="secondary">
+                              {billCreditNotes.map(creditNote => creditNote.creditNoteNumber).join(', ')} · -{currency}{credited.toFixed(2)}
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">Paid</Badge>
+                          )}
+                          {bill.einvoice && (
+                            <Badge variant="outline" className="ml-1" title={`IRN ${bill.einvoice.irn}`}>
+                              E-Invoiced
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-bold">
+                          {currency}{bill.total.toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => settings && printBill(bill, settings)}
+                          >
+                            <Printer className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!canVoidBill(bill, billCreditNotes)}
+                            onClick={() => handleVoid(bill)}
+                          >
+                            <Ban className="mr-1 h-4 w-4" />
+                            Void
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!!bill.void || credited >= bill.total - 0.01}
+                            onClick={() => setRefundBill(bill)}
+                          >
+                            <Undo2 className="mr-1 h-4 w-4" />
+                            Refund
+                          </Button>
+                          {canGenerateEInvoice(bill, settings) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setEInvoiceBill(bill)}
+                            >
+                              <FileCheck className="mr-1 h-4 w-4" />
+                              E-Invoice
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {billsQuery.hasNextPage && (
+                <div className="flex justify-center pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => billsQuery.fetchNextPage()}
+                    disabled={billsQuery.isFetchingNextPage}
+                  >
+                    {billsQuery.isFetchingNextPage ? 'Loading...' : 'Load More'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {creditNotes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Credit Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Credit Note</TableHead>
+                  <TableHead>Bill No.</TableHead>
+                  <TableHead>Date & Time</TableHead>
+                  <TableHead>Issued By</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Refund</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {creditNotes.map(creditNote => (
+                  <TableRow key={creditNote.id}>
+                    <TableCell className="font-medium">{creditNote.creditNoteNumber}</TableCell>
+                    <TableCell>{creditNote.billNumber}</TableCell>
+                    <TableCell>{new Date(creditNote.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{creditNote.createdByName}</TableCell>
+                    <TableCell>{creditNote.reason}</TableCell>
+                    <TableCell className="text-right font-bold text-destructive">
+                      -{currency}{creditNote.total.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => settings && printCreditNote(creditNote, settings)}
+                      >
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {creditNotesQuery.hasNextPage && (
+              <div className="flex justify-center pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => creditNotesQuery.fetchNextPage()}
+                  disabled={creditNotesQuery.isFetchingNextPage}
+                >
+                  {creditNotesQuery.isFetchingNextPage ? 'Loading...' : 'Load More'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,40 +1,32 @@
-import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { getAllBills, getAllMenuItems } from '@/lib/db';
+import { getAllMenuItems, getBillsPage, getDailySummaries } from '@/lib/db';
+import { getSummaryDate, mergeSummaries } from '@/lib/summaries';
+import { roundMoney } from '@/lib/billing';
 import { getCurrentUser } from '@/lib/auth';
+import { useStoreQuery } from '@/hooks/use-store-query';
 import { Receipt, UtensilsCrossed, TrendingUp, DollarSign } from 'lucide-react';
-import { Bill, MenuItem } from '@/types';
 
 export default function Dashboard() {
-  const [bills, setBills] = useState<Bill[]>([]);
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const summariesQuery = useStoreQuery(['dailySummaries'], [], () => getDailySummaries());
+  const menuQuery = useStoreQuery(['menuItems'], [], getAllMenuItems);
+  const today = getSummaryDate(new Date());
+  const recentQuery = useStoreQuery(['bills'], ['recent', today], async () => {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const { bills } = await getBillsPage(startOfToday.toISOString(), undefined, 10);
+    return bills.filter(bill => !bill.void).slice(0, 5);
+  });
+  const summaries = summariesQuery.data || [];
+  const menuItems = menuQuery.data || [];
+  const recentBills = recentQuery.data || [];
+  const loading = summariesQuery.isPending || menuQuery.isPending || recentQuery.isPending;
   const user = getCurrentUser();
 
-  useEffect(() => {
-    loadData();
-  }, []);
-
-  const loadData = async () => {
-    try {
-      const [billsData, menuData] = await Promise.all([
-        getAllBills(),
-        getAllMenuItems(),
-      ]);
-      setBills(billsData);
-      setMenuItems(menuData);
-    } catch (error) {
-      console.error('Failed to load dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Calculate today's stats
-  const today = new Date().toISOString().split('T')[0];
-  const todaysBills = bills.filter(bill => bill.createdAt.startsWith(today));
-  const todaysSales = todaysBills.reduce((sum, bill) => sum + bill.total, 0);
-  const totalSales = bills.reduce((sum, bill) => sum + bill.total, 0);
+  const todays = mergeSummaries(summaries.filter(summary => summary.id === today));
+  const allTime = mergeSummaries(summaries);
+  const todaysSales = roundMoney(todays.sales - todays.refunds);
+  const totalSales = roundMoney(allTime.sales - allTime.refunds);
   const availableItems = menuItems.filter(item => item.isAvailable).length;
 
   const stats = [
@@ -42,12 +34,12 @@ export default function Dashboard() {
       title: "Today's Sales",
       value: `₹${todaysSales.toFixed(2)}`,
       icon: DollarSign,
-      description: `${todaysBills.length} bills today`,
+      description: `${todays.bills} bills today`,
       color: 'text-primary',
     },
     {
       title: 'Total Bills',
-      value: bills.length,
+      value: allTime.bills,
       icon: Receipt,
       description: 'All time',
       color: 'text-blue-500',
@@ -114,13 +106,13 @@ export default function Dashboard() {
             <CardTitle>Recent Bills</CardTitle>
           </CardHeader>
           <CardContent>
-            {todaysBills.length === 0 ? (
+            {recentBills.length === 0 ? (
               <p className="text-muted-foreground text-center py-8">
                 No bills today yet. Start billing!
               </p>
             ) : (
               <div className="space-y-4">
-                {todaysBills.slice(0, 5).map((bill) => (
+                {recentBills.map((bill) => (
                   <div
                     key={bill.id}
                     className="flex items-center justify-between p-4 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
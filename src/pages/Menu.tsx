@@ -14,27 +14,44 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   getAllMenuItems,
   createMenuItem,
   updateMenuItem,
   deleteMenuItem,
+  getAllModifierGroups,
 } from '@/lib/db';
-import { MenuItem } from '@/types';
-import { Plus, Pencil, Trash2, Search } from 'lucide-react';
+import { MenuItem, MenuItemVariant, ModifierGroup, TaxClass } from '@/types';
+import { GST_SLABS } from '@/lib/billing';
+import { Plus, Pencil, Trash2, Search, X, SlidersHorizontal } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { ModifierGroupsDialog } from '@/components/ModifierGroupsDialog';
+import { requestReplication } from '@/lib/replication';
 
 export default function Menu() {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [isModifiersOpen, setIsModifiersOpen] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     price: '',
     category: '',
     description: '',
     isAvailable: true,
+    variants: [] as { id: string; name: string; price: string }[],
+    gstRate: 'default',
+    hsnCode: '',
+    taxExempt: false,
   });
   const { toast } = useToast();
 
@@ -44,8 +61,12 @@ export default function Menu() {
 
   const loadMenuItems = async () => {
     try {
-      const items = await getAllMenuItems();
+      const [items, groups] = await Promise.all([
+        getAllMenuItems(),
+        getAllModifierGroups(),
+      ]);
       setMenuItems(items);
+      setModifierGroups(groups);
     } catch (error) {
       console.error('Failed to load menu items:', error);
       toast({
@@ -70,6 +91,14 @@ export default function Menu() {
         category: item.category,
         description: item.description || '',
         isAvailable: item.isAvailable,
+        variants: (item.variants || []).map(variant => ({
+          id: variant.id,
+          name: variant.name,
+          price: variant.price.toString(),
+        })),
+        gstRate: item.tax?.gstRate !== undefined ? item.tax.gstRate.toString() : 'default',
+        hsnCode: item.tax?.hsnCode || '',
+        taxExempt: !!item.tax?.exempt,
       });
     } else {
       setEditingItem(null);
@@ -79,13 +108,41 @@ export default function Menu() {
         category: '',
         description: '',
         isAvailable: true,
+        variants: [],
+        gstRate: 'default',
+        hsnCode: '',
+        taxExempt: false,
       });
     }
     setIsDialogOpen(true);
   };
 
+  const handleAddVariant = () => {
+    setFormData({
+      ...formData,
+      variants: [...formData.variants, { id: `variant-${Date.now()}`, name: '', price: '' }],
+    });
+  };
+
+  const handleVariantChange = (id: string, field: 'name' | 'price', value: string) => {
+    setFormData({
+      ...formData,
+      variants: formData.variants.map(variant =>
+        variant.id === id ? { ...variant, [field]: value } : variant
+      ),
+    });
+  };
+
+  const handleRemoveVariant = (id: string) => {
+    setFormData({
+      ...formData,
+      variants: formData.variants.filter(variant => variant.id !== id),
+    });
+  };
+
   const handleSubmit = async () => {
-    if (!formData.name || !formData.price || !formData.category) {
+    const hasVariants = formData.variants.length > 0;
+    if (!formData.name || (!hasVariants && !formData.price) || !formData.category) {
       toast({
         title: 'Validation Error',
         description: 'Please fill all required fields',
@@ -94,14 +151,44 @@ export default function Menu() {
       return;
     }
 
+    if (formData.variants.some(variant => !variant.name || isNaN(parseFloat(variant.price)))) {
+      toast({
+        title: 'Validation Error',
+        description: 'Every variant needs a name and a price',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const variants: MenuItemVariant[] | undefined = hasVariants
+      ? formData.variants.map(variant => ({
+          id: variant.id,
+          name: variant.name,
+          price: parseFloat(variant.price),
+        }))
+      : undefined;
+    const price = variants
+      ? Math.min(...variants.map(variant => variant.price))
+      : parseFloat(formData.price);
+    const hasTax = formData.gstRate !== 'default' || formData.hsnCode.trim() || formData.taxExempt;
+    const tax: TaxClass | undefined = hasTax
+      ? {
+          gstRate: formData.gstRate !== 'default' ? parseFloat(formData.gstRate) : undefined,
+          hsnCode: formData.hsnCode.trim() || undefined,
+          exempt: formData.taxExempt || undefined,
+        }
+      : undefined;
+
     try {
       if (editingItem) {
         const updatedItem: MenuItem = {
           ...editingItem,
           name: formData.name,
-          price: parseFloat(formData.price),
+          price,
           category: formData.category,
           description: formData.description,
+          variants,
+          tax,
           isAvailable: formData.isAvailable,
           updatedAt: new Date().toISOString(),
         };
@@ -112,11 +199,13 @@ export default function Menu() {
         });
       } else {
         const newItem: MenuItem = {
-          id: `menu-${Date.now()}`,
+          id: `menu-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
           name: formData.name,
-          price: parseFloat(formData.price),
+          price,
           category: formData.category,
           description: formData.description,
+          variants,
+          tax,
           isAvailable: formData.isAvailable,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -128,6 +217,7 @@ export default function Menu() {
         });
       }
       setIsDialogOpen(false);
+      requestReplication();
       loadMenuItems();
     } catch (error) {
       console.error('Failed to save menu item:', error);
@@ -144,6 +234,7 @@ export default function Menu() {
 
     try {
       await deleteMenuItem(id);
+      requestReplication();
       toast({
         title: 'Success',
         description: 'Menu item deleted successfully',
@@ -166,6 +257,7 @@ export default function Menu() {
         isAvailable: !item.isAvailable,
         updatedAt: new Date().toISOString(),
       });
+      requestReplication();
       loadMenuItems();
       toast({
         title: 'Success',
@@ -190,89 +282,181 @@ export default function Menu() {
           <h1 className="text-4xl font-bold">Menu Management</h1>
           <p className="text-muted-foreground">Manage your restaurant menu items</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button size="lg" onClick={() => handleOpenDialog()}>
-              <Plus className="mr-2 h-5 w-5" />
-              Add Item
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[500px]">
-            <DialogHeader>
-              <DialogTitle>{editingItem ? 'Edit Item' : 'Add New Item'}</DialogTitle>
-              <DialogDescription>
-                {editingItem ? 'Update the menu item details' : 'Add a new item to your menu'}
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Item Name *</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  placeholder="Enter item name"
-                />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex gap-2">
+          <Button size="lg" variant="outline" onClick={() => setIsModifiersOpen(true)}>
+            <SlidersHorizontal className="mr-2 h-5 w-5" />
+            Modifiers
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="lg" onClick={() => handleOpenDialog()}>
+                <Plus className="mr-2 h-5 w-5" />
+                Add Item
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>{editingItem ? 'Edit Item' : 'Add New Item'}</DialogTitle>
+                <DialogDescription>
+                  {editingItem ? 'Update the menu item details' : 'Add a new item to your menu'}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
                 <div className="space-y-2">
-                  <Label htmlFor="price">Price *</Label>
+                  <Label htmlFor="name">Item Name *</Label>
                   <Input
-                    id="price"
-                    type="number"
-                    step="0.01"
-                    value={formData.price}
-                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                    placeholder="0.00"
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Enter item name"
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="price">Price *</Label>
+                    <Input
+                      id="price"
+                      type="number"
+                      step="0.01"
+                      value={formData.variants.length > 0 ? '' : formData.price}
+                      onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                      placeholder={formData.variants.length > 0 ? 'Set per variant' : '0.00'}
+                      disabled={formData.variants.length > 0}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category *</Label>
+                    <Input
+                      id="category"
+                      value={formData.category}
+                      onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                      placeholder="e.g., Main Course"
+                      list="categories"
+                    />
+                    <datalist id="categories">
+                      {categories.map(cat => (
+                        <option key={cat} value={cat} />
+                      ))}
+                    </datalist>
+                  </div>
+                </div>
                 <div className="space-y-2">
-                  <Label htmlFor="category">Category *</Label>
-                  <Input
-                    id="category"
-                    value={formData.category}
-                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                    placeholder="e.g., Main Course"
-                    list="categories"
+                  <div className="flex items-center justify-between">
+                    <Label>Variants</Label>
+                    <Button type="button" size="sm" variant="outline" onClick={handleAddVariant}>
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add Variant
+                    </Button>
+                  </div>
+                  {formData.variants.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">
+                      Add variants such as Half / Full to sell this item at different prices
+                    </p>
+                  ) : (
+                    formData.variants.map(variant => (
+                      <div key={variant.id} className="flex gap-2">
+                        <Input
+                          value={variant.name}
+                          onChange={(e) => handleVariantChange(variant.id, 'name', e.target.value)}
+                          placeholder="e.g., Half"
+                        />
+                        <Input
+                          type="number"
+                          step="0.01"
+                          className="w-32"
+                          value={variant.price}
+                          onChange={(e) => handleVariantChange(variant.id, 'price', e.target.value)}
+                          placeholder="0.00"
+                        />
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleRemoveVariant(variant.id)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label>GST Rate</Label>
+                    <Select
+                      value={formData.gstRate}
+                      onValueChange={(value) => setFormData({ ...formData, gstRate: value })}
+                      disabled={formData.taxExempt}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Default</SelectItem>
+                        {GST_SLABS.map(rate => (
+                          <SelectItem key={rate} value={rate.toString()}>{rate}%</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hsn-code">HSN/SAC Code</Label>
+                    <Input
+                      id="hsn-code"
+                      value={formData.hsnCode}
+                      onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                      placeholder="e.g., 996331"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 pb-2">
+                    <Switch
+                      id="tax-exempt"
+                      checked={formData.taxExempt}
+                      onCheckedChange={(checked) => setFormData({ ...formData, taxExempt: checked })}
+                    />
+                    <Label htmlFor="tax-exempt">GST Exempt</Label>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Enter item description"
+                    rows={3}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="available">Available</Label>
+                  <Switch
+                    id="available"
+                    checked={formData.isAvailable}
+                    onCheckedChange={(checked) => setFormData({ ...formData, isAvailable: checked })}
                   />
-                  <datalist id="categories">
-                    {categories.map(cat => (
-                      <option key={cat} value={cat} />
-                    ))}
-                  </datalist>
                 </div>
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Enter item description"
-                  rows={3}
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="available">Available</Label>
-                <Switch
-                  id="available"
-                  checked={formData.isAvailable}
-                  onCheckedChange={(checked) => setFormData({ ...formData, isAvailable: checked })}
-                />
-              </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleSubmit}>
-                {editingItem ? 'Update' : 'Create'}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSubmit}>
+                  {editingItem ? 'Update' : 'Create'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <ModifierGroupsDialog
+        open={isModifiersOpen}
+        onOpenChange={setIsModifiersOpen}
+        groups={modifierGroups}
+        menuItems={menuItems}
+        onChange={loadMenuItems}
+      />
+
       <div className="relative">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
         <Input
@@ -321,8 +505,21 @@ export default function Menu() {
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-3">
+                    {item.variants?.length ? (
+                      <p className="text-sm text-muted-foreground">
+                        {item.variants.map(variant => `${variant.name} ₹${variant.price}`).join(' · ')}
+                      </p>
+                    ) : null}
+                    {item.tax && (
+                      <p className="text-xs text-muted-foreground">
+                        {item.tax.exempt ? 'GST exempt' : item.tax.gstRate !== undefined ? `GST ${item.tax.gstRate}%` : 'Default GST'}
+                        {item.tax.hsnCode && ` · HSN/SAC ${item.tax.hsnCode}`}
+                      </p>
+                    )}
                     <div className="flex items-center justify-between">
-                      <span className="text-2xl font-bold text-primary">₹{item.price}</span>
+                      <span className="text-2xl font-bold text-primary">
+                        {item.variants?.length ? 'from ' : ''}₹{item.price}
+                      </span>
                       <div className="flex items-center gap-2">
                         <span className="text-sm text-muted-foreground">
                           {item.isAvailable ? 'Available' : 'Unavailable'}
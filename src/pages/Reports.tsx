@@ -1,11 +1,24 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { getAllBills, getSettings } from '@/lib/db';
-import { Bill, AppSettings } from '@/types';
-import { Download, FileDown, Calendar } from 'lucide-react';
-import { exportBillsToExcel, exportBillsToCSV } from '@/lib/export';
+import { Input } from '@/components/ui/input';
+import {
+  PageCursor,
+  getBill,
+  getBillsByDateRange,
+  getBillsPage,
+  getCreditNotesByDateRange,
+  getDailySummaries,
+  getSettings,
+} from '@/lib/db';
+import { Download, FileDown, Calendar, FileSpreadsheet } from 'lucide-react';
+import { exportBillsToExcel, exportBillsToCSV, exportGstr1ToExcel } from '@/lib/export';
+import { buildGstr1 } from '@/lib/gstr1';
+import { getBillPayments, formatPayments, PAYMENT_METHODS } from '@/lib/payments';
+import { roundMoney, ORDER_TYPES } from '@/lib/billing';
+import { getSummaryDate, mergeSummaries } from '@/lib/summaries';
 import { useToast } from '@/hooks/use-toast';
+import { useStorePages, useStoreQuery } from '@/hooks/use-store-query';
 import {
   Table,
   TableBody,
@@ -15,78 +28,147 @@ import {
   TableRow,
 } from '@/components/ui/table';
 
+const BILLS_PAGE_SIZE = 50;
+
+type Period = 'today' | 'week' | 'month' | 'all';
+
+// Local midnight the period starts at; undefined for all time
+function getPeriodStart(period: Period): Date | undefined {
+  const now = new Date();
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (period) {
+    case 'today':
+      return start;
+    case 'week':
+      start.setDate(start.getDate() - 7);
+      return start;
+    case 'month':
+      start.setMonth(start.getMonth() - 1);
+      return start;
+    default:
+      return undefined;
+  }
+}
+
 export default function Reports() {
-  const [bills, setBills] = useState<Bill[]>([]);
-  const [settings, setSettings] = useState<AppSettings | null>(null);
-  const [selectedPeriod, setSelectedPeriod] = useState<'today' | 'week' | 'month' | 'all'>('today');
+  const [selectedPeriod, setSelectedPeriod] = useState<Period>('today');
+  // GST returns are filed for the previous month, so that is the default
+  const [gstMonth, setGstMonth] = useState(() => {
+    const date = new Date();
+    date.setDate(1);
+    date.setMonth(date.getMonth() - 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
   const { toast } = useToast();
+  const periodStart = getPeriodStart(selectedPeriod);
+  const startDate = periodStart?.toISOString();
+  // Totals come from the daily summaries so a long history is never read in full
+  const summariesQuery = useStoreQuery(['dailySummaries'], [startDate], () =>
+    getDailySummaries(periodStart && getSummaryDate(periodStart))
+  );
+  const billsQuery = useStorePages(
+    ['bills'],
+    ['page', startDate],
+    (after?: PageCursor) => getBillsPage(startDate, after, BILLS_PAGE_SIZE),
+    page => page.next
+  );
+  const settingsQuery = useStoreQuery(['settings'], [], async () => (await getSettings()) || null);
+  const summary = mergeSummaries(summariesQuery.data || []);
+  const bills = billsQuery.data?.pages.flatMap(page => page.bills) || [];
+  const settings = settingsQuery.data || null;
+  const loadFailed = summariesQuery.isError || billsQuery.isError || settingsQuery.isError;
 
   useEffect(() => {
-    loadData();
-  }, []);
+    if (!loadFailed) return;
+    toast({
+      title: 'Error',
+      description: 'Failed to load reports data',
+      variant: 'destructive',
+    });
+  }, [loadFailed, toast]);
+
+  // Voided bills stay listed but are left out of every total. Credit notes are
+  // counted in the period they were issued, not that of the bill.
+  const totalRefunds = summary.refunds;
+  const totalSales = roundMoney(summary.sales - summary.refunds);
+  const avgBillValue = summary.bills > 0 ? totalSales / summary.bills : 0;
+
+  // Refunds count against the order type of the bill they were issued for
+  const salesByOrderType = ORDER_TYPES.map(type => {
+    const entry = summary.orderTypes[type.value] || { bills: 0, sales: 0, refunds: 0 };
+    return { ...type, count: entry.bills, refunds: entry.refunds, sales: roundMoney(entry.sales - entry.refunds) };
+  });
+
+  const discountsByReason = Object.entries(summary.discountReasons);
+  const chargesByName = Object.entries(summary.charges);
+  const paymentSummary = Object.fromEntries(
+    PAYMENT_METHODS.map(method => [method.value, roundMoney(summary.payments[method.value] - summary.refundPayments[method.value])])
+  ) as typeof summary.payments;
+  const totalDiscounts = summary.discounts;
+  // Bill totals already include the tax in both pricing modes, so tax is
+  // reported from the stored amounts rather than worked out again
+  const taxableSales = roundMoney(summary.taxable - summary.refundTaxable);
+  const taxCollected = roundMoney(summary.tax - summary.refundTax);
+  const totalRoundOff = roundMoney(summary.roundOff - summary.refundRoundOff);
+
+  const loadPeriod = () => Promise.all([getBillsByDateRange(startDate), getCreditNotesByDateRange(startDate)]);
 
-  const loadData = async () => {
+  const handleExportExcel = async () => {
     try {
-      const [billsData, settingsData] = await Promise.all([
-        getAllBills(),
-        getSettings(),
-      ]);
-      setBills(billsData);
-      setSettings(settingsData || null);
+      const [periodBills, periodCreditNotes] = await loadPeriod();
+      exportBillsToExcel(periodBills, periodCreditNotes, `bills-${selectedPeriod}-${Date.now()}.xlsx`);
+      toast({
+        title: 'Success',
+        description: 'Bills exported to Excel successfully',
+      });
     } catch (error) {
-      console.error('Failed to load data:', error);
       toast({
         title: 'Error',
-        description: 'Failed to load reports data',
+        description: 'Failed to export bills',
         variant: 'destructive',
       });
     }
   };
 
-  const getFilteredBills = () => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    
-    switch (selectedPeriod) {
-      case 'today':
-        return bills.filter(bill => new Date(bill.createdAt) >= today);
-      case 'week':
-        const weekAgo = new Date(today);
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        return bills.filter(bill => new Date(bill.createdAt) >= weekAgo);
-      case 'month':
-        const monthAgo = new Date(today);
-        monthAgo.setMonth(monthAgo.getMonth() - 1);
-        return bills.filter(bill => new Date(bill.createdAt) >= monthAgo);
-      default:
-        return bills;
-    }
-  };
-
-  const filteredBills = getFilteredBills();
-  const totalSales = filteredBills.reduce((sum, bill) => sum + bill.total, 0);
-  const totalItems = filteredBills.reduce((sum, bill) => sum + bill.items.length, 0);
-  const avgBillValue = filteredBills.length > 0 ? totalSales / filteredBills.length : 0;
+  const handleExportGstr1 = async () => {
+    if (!settings || !gstMonth) return;
 
-  const handleExportExcel = () => {
     try {
-      exportBillsToExcel(filteredBills, `bills-${selectedPeriod}-${Date.now()}.xlsx`);
+      // A day either side covers any time zone; buildGstr1 keeps to the month
+      const [year, month] = gstMonth.split('-').map(Number);
+      const from = new Date(year, month - 1, 0).toISOString();
+      const to = new Date(year, month, 2).toISOString();
+      const [monthBills, creditNotes] = await Promise.all([
+        getBillsByDateRange(from, to),
+        getCreditNotesByDateRange(from, to),
+      ]);
+      // Credit notes may refund bills from earlier months
+      const billIds = new Set(monthBills.map(bill => bill.id));
+      const refundedBills = await Promise.all(
+        [...new Set(creditNotes.map(creditNote => creditNote.billId))]
+          .filter(id => !billIds.has(id))
+          .map(id => getBill(id))
+      );
+      const bills = [...monthBills, ...refundedBills.filter((bill): bill is NonNullable<typeof bill> => !!bill)];
+      exportGstr1ToExcel(buildGstr1(bills, creditNotes, settings, gstMonth), `gstr1-${gstMonth}.xlsx`);
       toast({
         title: 'Success',
-        description: 'Bills exported to Excel successfully',
+        description: `GSTR-1 data for ${gstMonth} exported`,
       });
     } catch (error) {
+      console.error('Failed to export GSTR-1:', error);
       toast({
         title: 'Error',
-        description: 'Failed to export bills',
+        description: 'Failed to export GSTR-1 data',
         variant: 'destructive',
       });
     }
   };
 
-  const handleExportCSV = () => {
+  const handleExportCSV = async () => {
     try {
-      exportBillsToCSV(filteredBills, `bills-${selectedPeriod}-${Date.now()}.csv`);
+      const [periodBills, periodCreditNotes] = await loadPeriod();
+      exportBillsToCSV(periodBills, periodCreditNotes, `bills-${selectedPeriod}-${Date.now()}.csv`);
       toast({
         title: 'Success',
         description: 'Bills exported to CSV successfully',
@@ -119,6 +201,28 @@ export default function Reports() {
         </div>
       </div>
 
+      {/* GST Return */}
+      <Card>
+        <CardHeader>
+          <CardTitle>GSTR-1 Export</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-4">
+          <Input
+            type="month"
+            value={gstMonth}
+            onChange={(e) => setGstMonth(e.target.value)}
+            className="w-48"
+          />
+          <Button variant="outline" onClick={handleExportGstr1} disabled={!settings || !gstMonth}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Export GSTR-1
+          </Button>
+          <p className="text-sm text-muted-foreground">
+            B2B, B2CS, credit notes, HSN summary and document ranges in the offline tool layout
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Period Selector */}
       <div className="flex gap-2">
         {(['today', 'week', 'month', 'all'] as const).map((period) => (
@@ -146,7 +250,8 @@ export default function Reports() {
               {settings?.currency || '₹'}{totalSales.toFixed(2)}
             </div>
             <p className="text-sm text-muted-foreground mt-1">
-              {filteredBills.length} bills
+              {summary.bills} bills
+              {totalRefunds > 0 && ` · ${settings?.currency || '₹'}${totalRefunds.toFixed(2)} refunded`}
             </p>
           </CardContent>
         </Card>
@@ -175,10 +280,10 @@ export default function Reports() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold">
-              {filteredBills.length}
+              {summary.bills}
             </div>
             <p className="text-sm text-muted-foreground mt-1">
-              transactions
+              transactions{summary.voided > 0 && ` · ${summary.voided} void`}
             </p>
           </CardContent>
         </Card>
@@ -191,7 +296,7 @@ export default function Reports() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold">
-              {totalItems}
+              {summary.items}
             </div>
             <p className="text-sm text-muted-foreground mt-1">
               total items
@@ -200,13 +305,178 @@ export default function Reports() {
         </Card>
       </div>
 
+      {/* Payment Breakdown */}
+      <div className="grid gap-6 md:grid-cols-3">
+        {PAYMENT_METHODS.map(method => (
+          <Card key={method.value}>
+            <CardHeader>
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {method.label} Collected (net of refunds)
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {settings?.currency || '₹'}{paymentSummary[method.value].toFixed(2)}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Order Types */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Sales by Order Type</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order Type</TableHead>
+                <TableHead>Bills</TableHead>
+                <TableHead className="text-right">Refunds</TableHead>
+                <TableHead className="text-right">Net Sales</TableHead>
+                <TableHead className="text-right">Average Bill</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {salesByOrderType.map(type => (
+                <TableRow key={type.value}>
+                  <TableCell className="font-medium">{type.label}</TableCell>
+                  <TableCell>{type.count}</TableCell>
+                  <TableCell className="text-right">
+                    {settings?.currency || '₹'}{type.refunds.toFixed(2)}
+                  </TableCell>
+                  <TableCell className="text-right font-bold">
+                    {settings?.currency || '₹'}{type.sales.toFixed(2)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {settings?.currency || '₹'}{(type.count > 0 ? type.sales / type.count : 0).toFixed(2)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Tax */}
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Taxable Sales (net of refunds)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {settings?.currency || '₹'}{taxableSales.toFixed(2)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              GST Collected (net of refunds)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {settings?.currency || '₹'}{taxCollected.toFixed(2)}
+            </div>
+            {settings?.taxInclusive && (
+              <p className="text-sm text-muted-foreground mt-1">included in menu prices</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Round Off
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {totalRoundOff < 0 ? '-' : ''}{settings?.currency || '₹'}{Math.abs(totalRoundOff).toFixed(2)}
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">not part of taxable value</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Discounts */}
+      {totalDiscounts > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Discounts · {settings?.currency || '₹'}{totalDiscounts.toFixed(2)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Times Applied</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {discountsByReason.map(([reason, entry]) => (
+                  <TableRow key={reason}>
+                    <TableCell className="font-medium">{reason}</TableCell>
+                    <TableCell>{entry.count}</TableCell>
+                    <TableCell className="text-right font-bold">
+                      {settings?.currency || '₹'}{entry.amount.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Charges */}
+      {chargesByName.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Service & Packaging Charges</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Charge</TableHead>
+                  <TableHead>Applied</TableHead>
+                  <TableHead>Waived</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {chargesByName.map(([name, entry]) => (
+                  <TableRow key={name}>
+                    <TableCell className="font-medium">{name}</TableCell>
+                    <TableCell>{entry.applied}</TableCell>
+                    <TableCell>{entry.waived}</TableCell>
+                    <TableCell className="text-right font-bold">
+                      {settings?.currency || '₹'}{entry.amount.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Bills Table */}
       <Card>
         <CardHeader>
           <CardTitle>Recent Bills</CardTitle>
         </CardHeader>
         <CardContent>
-          {filteredBills.length === 0 ? (
+          {bills.length === 0 ? (
             <p className="text-center text-muted-foreground py-8">
               No bills found for this period
             </p>
@@ -224,24 +494,38 @@ export default function Reports() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredBills.slice(0, 50).map((bill) => (
-                    <TableRow key={bill.id}>
-                      <TableCell className="font-medium">{bill.billNumber}</TableCell>
+                  {bills.map((bill) => (
+                    <TableRow key={bill.id} className={bill.void ? 'opacity-60' : ''}>
+                      <TableCell className="font-medium">
+                        {bill.billNumber}
+                        {bill.void && <span className="ml-2 text-xs text-destructive">VOID</span>}
+                      </TableCell>
                       <TableCell>
                         {new Date(bill.createdAt).toLocaleString()}
                       </TableCell>
                       <TableCell>{bill.createdByName}</TableCell>
                       <TableCell>{bill.items.length}</TableCell>
                       <TableCell className="capitalize">
-                        {bill.paymentMethod || '-'}
+                        {formatPayments(getBillPayments(bill))}
                       </TableCell>
-                      <TableCell className="text-right font-bold">
+                      <TableCell className={`text-right font-bold ${bill.void ? 'line-through' : ''}`}>
                         {settings?.currency || '₹'}{bill.total.toFixed(2)}
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
+              {billsQuery.hasNextPage && (
+                <div className="flex justify-center pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => billsQuery.fetchNextPage()}
+                    disabled={billsQuery.isFetchingNextPage}
+                  >
+                    {billsQuery.isFetchingNextPage ? 'Loading...' : 'Load More'}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -1,10 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -13,11 +14,45 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { getSettings, saveSettings, getAllMenuItems, getAllBills } from '@/lib/db';
-import { AppSettings } from '@/types';
-import { Save, Download, Moon, Sun } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  getSettings,
+  saveSettings,
+  getIssuedNumbers,
+  findDuplicateBillNumbers,
+  restoreData,
+  getReplicationState,
+  DuplicateBillAction,
+  RestoreMode,
+} from '@/lib/db';
+import { AppSettings, Bill, ChargeConfig, DiscountType, EInvoiceSettings, NumberSeries, NumberSeriesConfig, OrderType, ReplicationState, RoundOffRule } from '@/types';
+import { Save, Download, Upload, Moon, Sun, Hash, Plus, Trash2, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { exportDataBackup } from '@/lib/export';
+import { ParsedBackup, createBackup, parseBackup } from '@/lib/backup';
+import { RestoreBackupDialog } from '@/components/RestoreBackupDialog';
+import { SyncState, getSyncStatus, subscribeSyncStatus, syncNow } from '@/lib/sync';
+import { getReplicationStatus, replicateNow, requestReplication, subscribeReplicationStatus } from '@/lib/replication';
+import { StorageStatus, getStorageStatus, requestPersistentStorage } from '@/lib/pwa';
+import { DEFAULT_CHARGES, DEFAULT_DISCOUNT_REASONS, ORDER_TYPES, ROUND_OFF_RULES } from '@/lib/billing';
+import {
+  DEFAULT_NUMBER_SERIES,
+  NUMBER_SERIES,
+  NumberingIssue,
+  TERMINAL_CODE_PATTERN,
+  auditDocumentNumbers,
+  formatDocumentNumber,
+  getNumberPeriod,
+  getSeriesConfig,
+} from '@/lib/numbering';
+
+const SYNC_STATE_LABELS: Record<SyncState, string> = {
+  disabled: 'Not configured',
+  idle: 'Up to date',
+  syncing: 'Syncing...',
+  offline: 'Offline',
+  error: 'Failed',
+};
 
 export default function Settings() {
   const [settings, setSettings] = useState<AppSettings>({
@@ -32,8 +67,29 @@ export default function Settings() {
     currency: '₹',
   });
   const [isDarkMode, setIsDarkMode] = useState(true);
+  const [discountReasonsText, setDiscountReasonsText] = useState(DEFAULT_DISCOUNT_REASONS.join('\n'));
+  const [numberingIssues, setNumberingIssues] = useState<Record<NumberSeries, NumberingIssue[]> | null>(null);
+  const [restoreBackup, setRestoreBackup] = useState<ParsedBackup | null>(null);
+  const [duplicateBills, setDuplicateBills] = useState<Bill[]>([]);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [syncStatus, setSyncStatus] = useState(getSyncStatus());
+  const [replicationStatus, setReplicationStatus] = useState(getReplicationStatus());
+  const [replicationState, setReplicationState] = useState<ReplicationState | null>(null);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
   const { toast } = useToast();
 
+  useEffect(() => subscribeSyncStatus(setSyncStatus), []);
+  useEffect(() => subscribeReplicationStatus(setReplicationStatus), []);
+
+  useEffect(() => {
+    getStorageStatus().then(setStorageStatus).catch(() => undefined);
+  }, []);
+
+  // Read again after each sync, which may have found clashing numbers
+  useEffect(() => {
+    getReplicationState().then(setReplicationState).catch(() => undefined);
+  }, [replicationStatus.lastSyncAt]);
+
   useEffect(() => {
     loadSettings();
     // Apply theme
@@ -48,6 +104,7 @@ export default function Settings() {
       if (data) {
         setSettings(data);
         setIsDarkMode(data.theme === 'dark');
+        setDiscountReasonsText((data.discountReasons || DEFAULT_DISCOUNT_REASONS).join('\n'));
       }
     } catch (error) {
       console.error('Failed to load settings:', error);
@@ -55,11 +112,26 @@ export default function Settings() {
   };
 
   const handleSave = async () => {
+    if (settings.syncServerUrl?.trim() && !TERMINAL_CODE_PATTERN.test(settings.terminalCode || '')) {
+      toast({
+        title: 'Error',
+        description: 'Give this terminal a code of up to 4 letters or digits before turning on sync',
+        variant: 'destructive',
+      });
+      return;
+    }
     try {
+      const discountReasons = discountReasonsText
+        .split('\n')
+        .map(reason => reason.trim())
+        .filter(Boolean);
       await saveSettings({
         ...settings,
+        discountReasons,
         id: 'settings-1',
       });
+      setSettings({ ...settings, discountReasons });
+      requestReplication();
       
       // Apply theme
       document.documentElement.classList.toggle('dark', settings.theme === 'dark');
@@ -79,6 +151,66 @@ export default function Settings() {
     }
   };
 
+  const charges = settings.charges || [];
+
+  const updateCharge = (id: string, changes: Partial<ChargeConfig>) => {
+    setSettings({
+      ...settings,
+      charges: charges.map(charge => (charge.id === id ? { ...charge, ...changes } : charge)),
+    });
+  };
+
+  const handleAddCharge = (orderType: OrderType) => {
+    const charge: ChargeConfig = { ...DEFAULT_CHARGES[orderType], id: `charge-${Date.now()}` };
+    setSettings({ ...settings, charges: [...charges, charge] });
+  };
+
+  const handleRemoveCharge = (id: string) => {
+    setSettings({ ...settings, charges: charges.filter(charge => charge.id !== id) });
+  };
+
+  const einvoice: EInvoiceSettings = settings.einvoice || { enabled: false, location: '', pincode: '' };
+
+  const updateEInvoice = (changes: Partial<EInvoiceSettings>) => {
+    setSettings({ ...settings, einvoice: { ...einvoice, ...changes } });
+  };
+
+  const toggleChargeOrderType = (charge: ChargeConfig, orderType: OrderType) => {
+    updateCharge(charge.id, {
+      orderTypes: charge.orderTypes.includes(orderType)
+        ? charge.orderTypes.filter(type => type !== orderType)
+        : [...charge.orderTypes, orderType],
+    });
+  };
+
+  const updateSeries = (series: NumberSeries, changes: Partial<NumberSeriesConfig>) => {
+    setSettings({
+      ...settings,
+      numbering: {
+        ...settings.numbering,
+        [series]: { ...DEFAULT_NUMBER_SERIES[series], ...settings.numbering?.[series], ...changes },
+      },
+    });
+  };
+
+  const handleCheckNumbering = async () => {
+    try {
+      const issues = {} as Record<NumberSeries, NumberingIssue[]>;
+      for (const series of NUMBER_SERIES) {
+        const issued = await getIssuedNumbers(series.value);
+        issues[series.value] = auditDocumentNumbers(issued, getSeriesConfig(settings, series.value));
+      }
+      setNumberingIssues(issues);
+    } catch (error) {
+      console.error('Failed to check numbering:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to check document numbers',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleThemeToggle = () => {
     const newTheme = isDarkMode ? 'light' : 'dark';
     setIsDarkMode(!isDarkMode);
@@ -87,11 +219,7 @@ export default function Settings() {
 
   const handleBackup = async () => {
     try {
-      const [bills, menuItems] = await Promise.all([
-        getAllBills(),
-        getAllMenuItems(),
-      ]);
-      exportDataBackup(bills, menuItems, `pos-backup-${Date.now()}.json`);
+      exportDataBackup(await createBackup(), `pos-backup-${Date.now()}.json`);
       toast({
         title: 'Success',
         description: 'Backup created successfully',
@@ -106,6 +234,90 @@ export default function Settings() {
     }
   };
 
+  const handleSyncNow = async () => {
+    await syncNow();
+    const { state, lastError } = getSyncStatus();
+    if (state === 'error' || state === 'offline') {
+      toast({
+        title: 'Sync Failed',
+        description: lastError || 'You are offline',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReplicateNow = async () => {
+    await replicateNow();
+    const { state, lastError } = getReplicationStatus();
+    if (state === 'error' || state === 'offline') {
+      toast({
+        title: 'Sync Failed',
+        description: lastError || 'You are offline',
+        variant: 'destructive',
+      });
+    } else {
+      loadSettings();
+    }
+  };
+
+  const handlePersistStorage = async () => {
+    const persisted = await requestPersistentStorage();
+    setStorageStatus(await getStorageStatus());
+    if (!persisted) {
+      toast({
+        title: 'Not Granted',
+        description: 'The browser declined; installing the app usually lets it keep the data',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const backup = await parseBackup(await file.text());
+      setDuplicateBills(await findDuplicateBillNumbers(backup.data.bills || []));
+      setRestoreBackup(backup);
+    } catch (error) {
+      console.error('Failed to read backup:', error);
+      toast({
+        title: 'Invalid Backup',
+        description: error instanceof Error ? error.message : 'Failed to read backup',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async (mode: RestoreMode, duplicateAction: DuplicateBillAction) => {
+    if (!restoreBackup) return;
+
+    try {
+      const result = await restoreData(restoreBackup.data, mode, duplicateAction);
+      const restored = Object.values(result.restored).reduce((sum, count) => sum + count, 0);
+      const skipped = Object.values(result.skipped).reduce((sum, count) => sum + count, 0);
+      toast({
+        title: 'Backup Restored',
+        description: [
+          `${restored} records restored`,
+          skipped ? `${skipped} already present or conflicting` : '',
+          result.renumbered.length ? `${result.renumbered.length} bills renumbered` : '',
+        ].filter(Boolean).join(', '),
+      });
+      setRestoreBackup(null);
+      loadSettings();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to restore backup',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -194,7 +406,7 @@ export default function Settings() {
             <CardHeader>
               <CardTitle>Tax Configuration</CardTitle>
               <CardDescription>
-                Configure GST rates for billing
+                Default GST rates, used for menu items without their own rate
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -220,6 +432,37 @@ export default function Settings() {
                   />
                 </div>
               </div>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Prices Include GST</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Menu prices are tax-inclusive; GST is worked out from the price instead of added to it
+                  </p>
+                </div>
+                <Switch
+                  checked={!!settings.taxInclusive}
+                  onCheckedChange={(checked) => setSettings({ ...settings, taxInclusive: checked })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="round-off">Round Off Bill Total</Label>
+                <Select
+                  value={settings.roundOff || 'none'}
+                  onValueChange={(value) => setSettings({ ...settings, roundOff: value as RoundOffRule })}
+                >
+                  <SelectTrigger id="round-off">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROUND_OFF_RULES.map(rule => (
+                      <SelectItem key={rule.value} value={rule.value}>{rule.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  The difference is shown as a separate round-off line on the bill
+                </p>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="currency">Currency Symbol</Label>
                 <Input
@@ -232,6 +475,243 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Discount Reasons</CardTitle>
+              <CardDescription>
+                Every discount must be given one of these reasons
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="discount-reasons">Reasons (one per line)</Label>
+              <Textarea
+                id="discount-reasons"
+                value={discountReasonsText}
+                onChange={(e) => setDiscountReasonsText(e.target.value)}
+                rows={5}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Service & Packaging Charges</CardTitle>
+              <CardDescription>
+                Added to bills of the chosen order types; percentages are of the food value after discounts
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {charges.length === 0 && (
+                <p className="text-sm text-muted-foreground">No charges configured</p>
+              )}
+              {charges.map(charge => (
+                <div key={charge.id} className="grid md:grid-cols-5 gap-4 items-end border-b pb-4">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor={`charge-name-${charge.id}`}>Name</Label>
+                    <Input
+                      id={`charge-name-${charge.id}`}
+                      value={charge.name}
+                      onChange={(e) => updateCharge(charge.id, { name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select
+                      value={charge.type}
+                      onValueChange={(value) => updateCharge(charge.id, { type: value as DiscountType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="percent">Percent</SelectItem>
+                        <SelectItem value="flat">Flat</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`charge-value-${charge.id}`}>
+                      {charge.type === 'percent' ? 'Rate (%)' : `Amount (${settings.currency})`}
+                    </Label>
+                    <Input
+                      id={`charge-value-${charge.id}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={charge.value}
+                      onChange={(e) => updateCharge(charge.id, { value: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <Button variant="outline" onClick={() => handleRemoveCharge(charge.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                  <div className="flex flex-wrap items-center gap-4 md:col-span-5">
+                    {ORDER_TYPES.map(orderType => (
+                      <label key={orderType.value} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={charge.orderTypes.includes(orderType.value)}
+                          onCheckedChange={() => toggleChargeOrderType(charge, orderType.value)}
+                        />
+                        {orderType.label}
+                      </label>
+                    ))}
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={charge.taxable}
+                        onCheckedChange={(checked) => updateCharge(charge.id, { taxable: checked })}
+                      />
+                      Taxable (default GST rates)
+                    </label>
+                  </div>
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-2">
+                {ORDER_TYPES.map(orderType => (
+                  <Button key={orderType.value} variant="outline" onClick={() => handleAddCharge(orderType.value)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add {orderType.label} Charge
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>E-Invoicing</CardTitle>
+              <CardDescription>
+                Register B2B bills with the invoice registration portal and print the IRN and QR code
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Enable E-Invoicing</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Bills with a customer GSTIN can be registered from the Bills page
+                  </p>
+                </div>
+                <Switch
+                  checked={einvoice.enabled}
+                  onCheckedChange={(checked) => updateEInvoice({ enabled: checked })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="einvoice-legal-name">Legal Name</Label>
+                <Input
+                  id="einvoice-legal-name"
+                  value={einvoice.legalName || ''}
+                  onChange={(e) => updateEInvoice({ legalName: e.target.value })}
+                  placeholder={settings.shopName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="einvoice-location">City / Location</Label>
+                  <Input
+                    id="einvoice-location"
+                    value={einvoice.location}
+                    onChange={(e) => updateEInvoice({ location: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="einvoice-pincode">PIN Code</Label>
+                  <Input
+                    id="einvoice-pincode"
+                    value={einvoice.pincode}
+                    onChange={(e) => updateEInvoice({ pincode: e.target.value })}
+                    maxLength={6}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="einvoice-irp-url">IRP Endpoint</Label>
+                <Input
+                  id="einvoice-irp-url"
+                  value={einvoice.irpUrl || ''}
+                  onChange={(e) => updateEInvoice({ irpUrl: e.target.value })}
+                  placeholder="https://gsp.example.com/einvoice"
+                />
+                <p className="text-sm text-muted-foreground">
+                  URL of your GSP proxy. Leave blank to use the local test stub, whose IRNs are not valid for filing.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Document Numbering</CardTitle>
+              <CardDescription>
+                Each series is numbered in order without gaps; yearly series restart every April
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {NUMBER_SERIES.map(series => {
+                const config = getSeriesConfig(settings, series.value);
+                return (
+                  <div key={series.value} className="grid md:grid-cols-4 gap-4 items-end">
+                    <div className="space-y-2">
+                      <Label htmlFor={`prefix-${series.value}`}>{series.label} Prefix</Label>
+                      <Input
+                        id={`prefix-${series.value}`}
+                        value={config.prefix}
+                        onChange={(e) => updateSeries(series.value, { prefix: e.target.value.trim() })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`padding-${series.value}`}>Digits</Label>
+                      <Input
+                        id={`padding-${series.value}`}
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={config.padding}
+                        onChange={(e) => updateSeries(series.value, { padding: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 pb-2">
+                      <Switch
+                        checked={config.resetYearly}
+                        onCheckedChange={(checked) => updateSeries(series.value, { resetYearly: checked })}
+                      />
+                      <Label>Reset each financial year</Label>
+                    </div>
+                    <p className="text-sm text-muted-foreground pb-2">
+                      e.g. {formatDocumentNumber(config, getNumberPeriod(config, new Date()), 1)}
+                    </p>
+                  </div>
+                );
+              })}
+              <Button variant="outline" onClick={handleCheckNumbering}>
+                <Hash className="mr-2 h-4 w-4" />
+                Check for Gaps and Duplicates
+              </Button>
+              {numberingIssues && (
+                <div className="space-y-2 text-sm">
+                  {NUMBER_SERIES.map(series => (
+                    <div key={series.value}>
+                      <p className="font-semibold">{series.label}</p>
+                      {numberingIssues[series.value].length === 0 ? (
+                        <p className="text-muted-foreground">No gaps or duplicates found</p>
+                      ) : (
+                        numberingIssues[series.value].map((issue, index) => (
+                          <p key={index} className={issue.type === 'unrecognised' ? 'text-muted-foreground' : 'text-destructive'}>
+                            {issue.type === 'gap' && `Missing in ${issue.period}: `}
+                            {issue.type === 'duplicate' && `Issued more than once in ${issue.period}: `}
+                            {issue.type === 'unrecognised' && 'Not in the current format (not checked): '}
+                            {issue.numbers.slice(0, 20).join(', ')}
+                            {issue.numbers.length > 20 && ` and ${issue.numbers.length - 20} more`}
+                          </p>
+                        ))
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Printer Settings</CardTitle>
@@ -286,59 +766,245 @@ export default function Settings() {
         </TabsContent>
 
         <TabsContent value="backup" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Device Storage</CardTitle>
+              <CardDescription>
+                Whether the browser may clear this device's data when it runs low on space
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="rounded-md border p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Storage</span>
+                  <Badge variant={storageStatus?.persisted ? 'outline' : 'destructive'}>
+                    {storageStatus?.persisted ? 'Persistent' : 'May be cleared'}
+                  </Badge>
+                </div>
+                {storageStatus?.usage !== undefined && (
+                  <div className="flex justify-between">
+                    <span>Used</span>
+                    <span>
+                      {(storageStatus.usage / 1024 / 1024).toFixed(1)} MB
+                      {storageStatus.quota ? ` of ${(storageStatus.quota / 1024 / 1024).toFixed(0)} MB` : ''}
+                    </span>
+                  </div>
+                )}
+              </div>
+              {!storageStatus?.persisted && (
+                <Button variant="outline" onClick={handlePersistStorage}>
+                  Keep Data on This Device
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Data Backup</CardTitle>
               <CardDescription>
-                Export your data for backup purposes
+                Back up all data to a file and restore it
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-sm text-muted-foreground">
-                Download a complete backup of all bills and menu items in JSON format.
-                This can be used to restore your data if needed.
+                Download a complete backup of all data, including users and settings, in JSON format.
+                Restoring checks the file and shows what it contains before anything is changed.
               </p>
-              <Button onClick={handleBackup} variant="outline">
-                <Download className="mr-2 h-4 w-4" />
-                Download Backup
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={handleBackup} variant="outline">
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Backup
+                </Button>
+                <Button onClick={() => backupInputRef.current?.click()} variant="outline">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Restore Backup
+                </Button>
+                <input
+                  ref={backupInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleBackupFile}
+                />
+              </div>
+              <RestoreBackupDialog
+                open={!!restoreBackup}
+                backup={restoreBackup}
+                duplicateBills={duplicateBills}
+                onClose={() => setRestoreBackup(null)}
+                onRestore={handleRestore}
+              />
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader>
-              <CardTitle>Cloud Sync (Coming Soon)</CardTitle>
+              <CardTitle>Cloud Sync</CardTitle>
               <CardDescription>
-                Sync your data with Google Sheets
+                Push bills and credit notes to a Google Sheet through an Apps Script web app
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="sheets-url">Google Sheets URL</Label>
+                <Label htmlFor="sheets-url">Web App URL</Label>
                 <Input
                   id="sheets-url"
                   value={settings.googleSheetsUrl || ''}
                   onChange={(e) => setSettings({ ...settings, googleSheetsUrl: e.target.value })}
-                  placeholder="Enter your Google Sheets URL"
-                  disabled
+                  placeholder="https://script.google.com/macros/s/.../exec"
                 />
               </div>
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label>Auto Sync</Label>
                   <p className="text-sm text-muted-foreground">
-                    Automatically sync bills to Google Sheets
+                    Send new and changed bills in the background, retrying while offline
                   </p>
                 </div>
                 <Switch
                   checked={settings.autoSync}
                   onCheckedChange={(checked) => setSettings({ ...settings, autoSync: checked })}
-                  disabled
                 />
               </div>
+              <div className="rounded-md border p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Status</span>
+                  <Badge variant={syncStatus.state === 'error' ? 'destructive' : 'outline'}>
+                    {SYNC_STATE_LABELS[syncStatus.state]}
+                  </Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Waiting to sync</span>
+                  <span className="font-medium">{syncStatus.pending}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Last synced</span>
+                  <span>{syncStatus.lastSyncAt ? new Date(syncStatus.lastSyncAt).toLocaleString() : 'Never'}</span>
+                </div>
+                {syncStatus.nextRetryAt && (
+                  <div className="flex justify-between">
+                    <span>Next retry</span>
+                    <span>{new Date(syncStatus.nextRetryAt).toLocaleTimeString()}</span>
+                  </div>
+                )}
+                {syncStatus.lastError && (
+                  <p className="text-destructive pt-1">{syncStatus.lastError}</p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleSyncNow}
+                disabled={syncStatus.state === 'syncing' || !settings.googleSheetsUrl}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Sync Now
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Deploy the script in scripts/google-sheets-sync.gs as a web app that anyone can access, then
+                save its URL here. Changes to these settings apply once saved.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Multi-Terminal Sync</CardTitle>
+              <CardDescription>
+                Share bills, refunds, the menu, users and settings between terminals through your own sync server
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="sync-server-url">Sync Server URL</Label>
+                  <Input
+                    id="sync-server-url"
+                    value={settings.syncServerUrl || ''}
+                    onChange={(e) => setSettings({ ...settings, syncServerUrl: e.target.value })}
+                    placeholder="http://192.168.1.10:8788"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sync-token">Access Token</Label>
+                  <Input
+                    id="sync-token"
+                    type="password"
+                    value={settings.syncToken || ''}
+                    onChange={(e) => setSettings({ ...settings, syncToken: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="terminal-code">Terminal Code</Label>
+                  <Input
+                    id="terminal-code"
+                    value={settings.terminalCode || ''}
+                    onChange={(e) => setSettings({ ...settings, terminalCode: e.target.value.toUpperCase().trim() })}
+                    placeholder="T1"
+                    maxLength={4}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Starts every bill, credit note and KOT number from this terminal, e.g.{' '}
+                    {formatDocumentNumber(getSeriesConfig(settings, 'bill'), getNumberPeriod(getSeriesConfig(settings, 'bill'), new Date()), 1)}.
+                    Required for sync and different on every terminal.
+                  </p>
+                </div>
+              </div>
+              <div className="rounded-md border p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>This terminal</span>
+                  <span className="font-mono">{replicationState?.terminalId.slice(-8) || '-'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Status</span>
+                  <Badge variant={replicationStatus.state === 'error' ? 'destructive' : 'outline'}>
+                    {SYNC_STATE_LABELS[replicationStatus.state]}
+                  </Badge>
+                </div>
+                <div className="flex justify-between">
+                  <span>Local changes waiting</span>
+                  <span className="font-medium">{replicationStatus.pending}</span>
+                </div>
+                {replicationStatus.refused > 0 && (
+                  <p className="text-destructive pt-1">
+                    The sync server refused {replicationStatus.refused} change(s) and they are no longer sent
+                    {replicationStatus.refusedError && `: ${replicationStatus.refusedError}`}. Edit the record to
+                    try again, or update the sync server.
+                  </p>
+                )}
+                <div className="flex justify-between">
+                  <span>Last synced</span>
+                  <span>{replicationStatus.lastSyncAt ? new Date(replicationStatus.lastSyncAt).toLocaleString() : 'Never'}</span>
+                </div>
+                {replicationStatus.nextRetryAt && (
+                  <div className="flex justify-between">
+                    <span>Next retry</span>
+                    <span>{new Date(replicationStatus.nextRetryAt).toLocaleTimeString()}</span>
+                  </div>
+                )}
+                {replicationStatus.lastError && (
+                  <p className="text-destructive pt-1">{replicationStatus.lastError}</p>
+                )}
+                {!!replicationState?.numberClashes?.length && (
+                  <p className="text-destructive pt-1">
+                    Numbers also issued by another terminal: {replicationState.numberClashes.slice(0, 20).join(', ')}
+                    {replicationState.numberClashes.length > 20 && ` and ${replicationState.numberClashes.length - 20} more`}.
+                    Check that no two terminals share a terminal code.
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleReplicateNow}
+                disabled={replicationStatus.state === 'syncing' || !settings.syncServerUrl}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Sync Now
+              </Button>
               <p className="text-xs text-muted-foreground">
-                Note: Cloud sync feature requires Google Apps Script configuration. 
-                Documentation will be provided in future updates.
+                Run scripts/sync-server.mjs on a machine every terminal can reach. When two terminals change
+                the same record, the later version wins everywhere. Terminal code, numbering, printer format
+                and theme stay per terminal.
               </p>
             </CardContent>
           </Card>
@@ -0,0 +1,404 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  getAllTables,
+  getAllOpenOrders,
+  createTable,
+  updateTable,
+  deleteTable,
+  setTableStatus,
+  getSettings,
+} from '@/lib/db';
+import { hasRole } from '@/lib/auth';
+import { DiningTable, TableStatus } from '@/types';
+import { Plus, Pencil, Trash2, Users, LayoutGrid } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useStoreQuery } from '@/hooks/use-store-query';
+
+const statusStyles: Record<TableStatus, string> = {
+  free: 'border-green-500/60 bg-green-500/10',
+  occupied: 'border-amber-500/60 bg-amber-500/10',
+  billed: 'border-blue-500/60 bg-blue-500/10',
+};
+
+const statusLabels: Record<TableStatus, string> = {
+  free: 'Free',
+  occupied: 'Occupied',
+  billed: 'Billed',
+};
+
+export default function Tables() {
+  const [selectedSection, setSelectedSection] = useState<string>('all');
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTable, setEditingTable] = useState<DiningTable | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    section: '',
+    seats: '4',
+    x: '1',
+    y: '1',
+  });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const canEditLayout = hasRole('admin');
+
+  // Orders taken in another tab show up without a reload
+  const tablesQuery = useStoreQuery(['tables'], [], getAllTables);
+  const openOrdersQuery = useStoreQuery(['openOrders'], [], getAllOpenOrders);
+  const settingsQuery = useStoreQuery(['settings'], [], async () => (await getSettings()) || null);
+  const tables = tablesQuery.data || [];
+  const openOrders = openOrdersQuery.data || [];
+  const settings = settingsQuery.data || null;
+  const loadFailed = tablesQuery.isError || openOrdersQuery.isError || settingsQuery.isError;
+
+  useEffect(() => {
+    if (!loadFailed) return;
+    toast({
+      title: 'Error',
+      description: 'Failed to load tables',
+      variant: 'destructive',
+    });
+  }, [loadFailed, toast]);
+
+  const sections = Array.from(new Set(tables.map(table => table.section)));
+  const visibleTables = tables.filter(
+    table => selectedSection === 'all' || table.section === selectedSection
+  );
+  const columns = Math.max(4, ...visibleTables.map(table => table.x));
+
+  const getOrderTotal = (tableId: string) => {
+    const order = openOrders.find(o => o.tableId === tableId);
+    return order ? order.items.reduce((sum, item) => sum + item.subtotal, 0) : 0;
+  };
+
+  const handleTableClick = (table: DiningTable) => {
+    if (isEditing) {
+      handleOpenDialog(table);
+      return;
+    }
+    navigate(`/billing?table=${table.id}`);
+  };
+
+  const handleOpenDialog = (table?: DiningTable) => {
+    if (table) {
+      setEditingTable(table);
+      setFormData({
+        name: table.name,
+        section: table.section,
+        seats: table.seats.toString(),
+        x: table.x.toString(),
+        y: table.y.toString(),
+      });
+    } else {
+      setEditingTable(null);
+      setFormData({
+        name: '',
+        section: selectedSection === 'all' ? sections[0] || 'Main Hall' : selectedSection,
+        seats: '4',
+        x: '1',
+        y: String(Math.max(0, ...tables.map(t => t.y)) + 1),
+      });
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name || !formData.section) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please fill all required fields',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const x = Math.max(1, parseInt(formData.x) || 1);
+    const y = Math.max(1, parseInt(formData.y) || 1);
+    const clash = tables.find(t =>
+      t.id !== editingTable?.id && t.section === formData.section && t.x === x && t.y === y
+    );
+    if (clash) {
+      toast({
+        title: 'Validation Error',
+        description: `${clash.name} already occupies that position`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const now = new Date().toISOString();
+      if (editingTable) {
+        await updateTable({
+          ...editingTable,
+          name: formData.name,
+          section: formData.section,
+          seats: parseInt(formData.seats) || 1,
+          x,
+          y,
+          updatedAt: now,
+        });
+      } else {
+        await createTable({
+          id: `table-${Date.now()}`,
+          name: formData.name,
+          section: formData.section,
+          seats: parseInt(formData.seats) || 1,
+          x,
+          y,
+          status: 'free',
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      toast({
+        title: 'Success',
+        description: `Table ${editingTable ? 'updated' : 'created'} successfully`,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to save table:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save table',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (table: DiningTable) => {
+    if (!confirm(`Delete table ${table.name}?`)) return;
+
+    try {
+      await deleteTable(table.id);
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to delete table:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete table',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleClearTable = async (table: DiningTable) => {
+    try {
+      await setTableStatus(table.id, 'free');
+    } catch (error) {
+      console.error('Failed to clear table:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to clear table',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold">Tables</h1>
+          <p className="text-muted-foreground">Floor plan and running orders</p>
+        </div>
+        {canEditLayout && (
+          <div className="flex gap-2">
+            {isEditing && (
+              <Button variant="outline" onClick={() => handleOpenDialog()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Table
+              </Button>
+            )}
+            <Button
+              variant={isEditing ? 'default' : 'outline'}
+              onClick={() => setIsEditing(!isEditing)}
+            >
+              <LayoutGrid className="mr-2 h-4 w-4" />
+              {isEditing ? 'Done' : 'Edit Layout'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex gap-2">
+          {['all', ...sections].map(section => (
+            <Button
+              key={section}
+              variant={selectedSection === section ? 'default' : 'outline'}
+              onClick={() => setSelectedSection(section)}
+            >
+              {section === 'all' ? 'All Sections' : section}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(statusLabels) as TableStatus[]).map(status => (
+            <Badge key={status} variant="outline" className={statusStyles[status]}>
+              {statusLabels[status]} ({tables.filter(t => t.status === status).length})
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {visibleTables.length === 0 ? (
+        <Card className="p-12">
+          <div className="text-center">
+            <p className="text-muted-foreground">No tables configured</p>
+          </div>
+        </Card>
+      ) : (
+        <div
+          className="grid gap-4"
+          style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+        >
+          {visibleTables.map(table => {
+            const orderTotal = getOrderTotal(table.id);
+            return (
+              <Card
+                key={table.id}
+                className={`cursor-pointer border-2 transition-all duration-200 hover:shadow-lg ${statusStyles[table.status]}`}
+                style={{ gridColumnStart: table.x, gridRowStart: table.y }}
+                onClick={() => handleTableClick(table)}
+              >
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-2xl font-bold">{table.name}</h3>
+                    {isEditing && <Pencil className="h-4 w-4 text-muted-foreground" />}
+                  </div>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <Users className="h-4 w-4" />
+                    {table.seats} seats
+                  </p>
+                  <p className="text-sm font-semibold">{statusLabels[table.status]}</p>
+                  {table.status === 'occupied' && (
+                    <p className="text-lg font-bold text-primary">
+                      {settings?.currency || '₹'}{orderTotal.toFixed(2)}
+                    </p>
+                  )}
+                  {table.status === 'billed' && !isEditing && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-full"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleClearTable(table);
+                      }}
+                    >
+                      Mark Free
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{editingTable ? 'Edit Table' : 'Add Table'}</DialogTitle>
+            <DialogDescription>
+              Position is the column and row of the table on the floor plan
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="table-name">Name *</Label>
+                <Input
+                  id="table-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., T7"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="table-seats">Seats</Label>
+                <Input
+                  id="table-seats"
+                  type="number"
+                  min="1"
+                  value={formData.seats}
+                  onChange={(e) => setFormData({ ...formData, seats: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="table-section">Section *</Label>
+              <Input
+                id="table-section"
+                value={formData.section}
+                onChange={(e) => setFormData({ ...formData, section: e.target.value })}
+                placeholder="e.g., Terrace"
+                list="table-sections"
+              />
+              <datalist id="table-sections">
+                {sections.map(section => (
+                  <option key={section} value={section} />
+                ))}
+              </datalist>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="table-x">Column</Label>
+                <Input
+                  id="table-x"
+                  type="number"
+                  min="1"
+                  value={formData.x}
+                  onChange={(e) => setFormData({ ...formData, x: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="table-y">Row</Label>
+                <Input
+                  id="table-y"
+                  type="number"
+                  min="1"
+                  value={formData.y}
+                  onChange={(e) => setFormData({ ...formData, y: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            {editingTable && (
+              <Button
+                variant="outline"
+                className="text-destructive mr-auto"
+                onClick={() => handleDelete(editingTable)}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit}>
+              {editingTable ? 'Update' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+// Service worker for the installed app. vite.config.ts fills in the build's
+// files and version when it copies this to dist/sw.js.
+const VERSION = '__VERSION__';
+const PRECACHE = __PRECACHE__;
+const CACHE_PREFIX = 'restaurant-pos-';
+const CACHE = `${CACHE_PREFIX}${VERSION}`;
+// Ids of the tabs that were open when this version took over, kept in the cache
+const PREVIOUS_CLIENTS = '/__previous-clients';
+
+// A new version waits until a page asks it to take over, so a till is never
+// switched to new code in the middle of a bill
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)));
+});
+
+// Tabs still running the previous version load their lazy chunks from its
+// cache, so older caches are only deleted once all of those tabs are gone
+async function deleteOldCaches() {
+  const cache = await caches.open(CACHE);
+  const saved = await cache.match(PREVIOUS_CLIENTS);
+  if (!saved) return;
+  const ids = await saved.json();
+  const open = await Promise.all(ids.map(id => self.clients.get(id)));
+  if (open.some(Boolean)) return;
+
+  const names = await caches.keys();
+  await Promise.all(names
+    .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE)
+    .map(name => caches.delete(name)));
+  await cache.delete(PREVIOUS_CLIENTS);
+}
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const cache = await caches.open(CACHE);
+    await cache.put(PREVIOUS_CLIENTS, new Response(JSON.stringify(windows.map(client => client.id))));
+    await self.clients.claim();
+    await deleteOldCaches();
+  })());
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// The app shell is served from the cache first; the network is only used for
+// files missing from it. Files of the previous version still cached are served
+// to the tabs running it. Other origins (sync servers, the IRP) are left alone.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      const cached = await caches.match('/index.html', { cacheName: CACHE });
+      return cached || fetch(request);
+    })());
+    // A reload replaces a tab of the previous version
+    event.waitUntil(deleteOldCaches());
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cached = await caches.match(request, { cacheName: CACHE }) || await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok && response.type === 'basic') {
+      const cache = await caches.open(CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  })());
+});
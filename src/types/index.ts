@@ -2,6 +2,14 @@
 
 export type UserRole = 'admin' | 'staff' | 'manager';
 
+// Version stamp of a replicated record. Edits are ordered by version, then
+// time, then terminal id, so every terminal picks the same winner.
+export interface RecordRev {
+  version: number;
+  updatedAt: string;
+  terminalId: string;
+}
+
 export interface User {
   id: string;
   username: string;
@@ -10,25 +18,157 @@ export interface User {
   name: string;
   createdAt: string;
   isActive: boolean;
+  rev?: RecordRev;
+}
+
+export interface MenuItemVariant {
+  id: string;
+  name: string;
+  price: number;
+}
+
+// GST slab of a menu item. gstRate is the combined rate, split equally into
+// CGST and SGST; without it the default rates in settings apply.
+export interface TaxClass {
+  gstRate?: number;
+  hsnCode?: string;
+  exempt?: boolean;
 }
 
 export interface MenuItem {
   id: string;
   name: string;
+  // Base price; for items with variants this mirrors the cheapest variant
   price: number;
   category: string;
   description?: string;
+  variants?: MenuItemVariant[];
+  tax?: TaxClass;
   isAvailable: boolean;
   createdAt: string;
   updatedAt: string;
+  rev?: RecordRev;
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price: number;
+}
+
+// Add-ons and instructions offered for menu items or whole categories
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  options: ModifierOption[];
+  minSelect: number;
+  maxSelect: number;
+  menuItemIds: string[];
+  categories: string[];
+  createdAt: string;
+  updatedAt: string;
+  rev?: RecordRev;
+}
+
+export interface BillItemModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  name: string;
+  price: number;
+}
+
+export type DiscountType = 'percent' | 'flat';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+  reason: string;
+  // Rupee amount the discount took off, worked out when totals are calculated
+  amount: number;
+}
+
+// How the order is served; decides which charges apply
+export type OrderType = 'dine-in' | 'takeaway' | 'delivery';
+
+// A service or packaging charge configured in settings
+export interface ChargeConfig {
+  id: string;
+  name: string;
+  type: DiscountType;
+  value: number;
+  // Taxable charges carry GST at the default rates
+  taxable: boolean;
+  orderTypes: OrderType[];
+}
+
+export interface BillCharge {
+  chargeId: string;
+  name: string;
+  type: DiscountType;
+  value: number;
+  // Rupee amount of the charge before tax
+  amount: number;
+  taxable: boolean;
+  gstRate?: number;
+  cgst: number;
+  sgst: number;
+  igst?: number;
 }
 
 export interface BillItem {
+  // Identifies the cart line; absent on bills saved before lines had ids
+  lineId?: string;
   menuItemId: string;
   name: string;
+  variantId?: string;
+  variantName?: string;
+  modifiers?: BillItemModifier[];
+  notes?: string;
+  // Unit price including any priced modifiers
   price: number;
   quantity: number;
   subtotal: number;
+  discount?: Discount;
+  seat?: number;
+  // Copied from the menu item's tax class when the line is added
+  gstRate?: number;
+  hsnCode?: string;
+  taxExempt?: boolean;
+  // Worked out per line when totals are calculated, after all discounts
+  taxableValue?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'upi';
+
+export interface PaymentTender {
+  method: PaymentMethod;
+  // Amount applied to the bill
+  amount: number;
+  // Cash handed over by the customer, when more than the amount applied
+  tendered?: number;
+  reference?: string;
+}
+
+export type SplitMode = 'items' | 'seats' | 'equal';
+
+// Links the bills produced by splitting one order
+export interface BillSplit {
+  groupId: string;
+  mode: SplitMode;
+  index: number;
+  count: number;
+}
+
+// A voided bill is kept for audit but no longer counts towards sales
+export interface BillVoid {
+  reason: string;
+  voidedBy: string;
+  voidedByName: string;
+  voidedAt: string;
 }
 
 export interface Bill {
@@ -36,17 +176,250 @@ export interface Bill {
   billNumber: string;
   items: BillItem[];
   subtotal: number;
+  discount?: Discount;
+  // Line and bill discounts combined; GST is charged on subtotal minus this,
+  // or taken out of it when prices include tax
+  discountTotal?: number;
+  taxableAmount?: number;
+  // Prices on this bill already included GST
+  taxInclusive?: boolean;
   cgst: number;
   sgst: number;
+  // Charged instead of CGST and SGST on inter-state supplies
+  igst?: number;
+  charges?: BillCharge[];
+  // Names of charges the cashier waived on this bill
+  waivedCharges?: string[];
+  // Added to (or taken off) the total by the round-off rule
+  roundOff?: number;
   total: number;
   createdBy: string;
   createdByName: string;
   createdAt: string;
-  paymentMethod?: 'cash' | 'card' | 'upi';
+  payments?: PaymentTender[];
+  changeDue?: number;
+  // Legacy single payment method; bills saved before split payments only have this
+  paymentMethod?: PaymentMethod;
   customerName?: string;
   customerPhone?: string;
+  customerGstin?: string;
+  // GST state code of the place of supply; defaults to the shop's own state
+  placeOfSupply?: string;
+  // Registered with the invoice registration portal (IRP)
+  einvoice?: BillEInvoice;
+  // Bills saved before order types were chosen have none; see getOrderType
+  orderType?: OrderType;
+  pickupName?: string;
+  deliveryAddress?: string;
+  deliveryPerson?: string;
   notes?: string;
+  tableId?: string;
+  tableName?: string;
+  orderId?: string;
+  kotNumbers?: string[];
+  split?: BillSplit;
+  void?: BillVoid;
   syncedToCloud: boolean;
+  rev?: RecordRev;
+}
+
+// Refund document issued against a bill, for all or some of its lines.
+// Amounts are positive and are subtracted from sales in reports.
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  billId: string;
+  billNumber: string;
+  items: BillItem[];
+  subtotal: number;
+  discountTotal: number;
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst?: number;
+  // The bill's round-off, reversed by the credit note that refunds what is left of it
+  roundOff?: number;
+  total: number;
+  reason: string;
+  refundMethod: PaymentMethod;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  syncedToCloud: boolean;
+  rev?: RecordRev;
+}
+
+export type TableStatus = 'free' | 'occupied' | 'billed';
+
+export interface DiningTable {
+  id: string;
+  name: string;
+  section: string;
+  seats: number;
+  // Position on the floor plan grid (1-based column/row)
+  x: number;
+  y: number;
+  status: TableStatus;
+  currentOrderId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OpenOrder {
+  id: string;
+  tableId: string;
+  tableName: string;
+  items: BillItem[];
+  customerName?: string;
+  customerPhone?: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  discount?: Discount;
+  // Ids of charges waived for this order
+  waivedCharges?: string[];
+  // Quantities already sent to the kitchen
+  firedItems?: KotItem[];
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A counter cart parked while the customer steps away
+export interface HeldOrder {
+  id: string;
+  items: BillItem[];
+  customerName?: string;
+  customerPhone?: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  orderType?: OrderType;
+  pickupName?: string;
+  deliveryAddress?: string;
+  deliveryPerson?: string;
+  payments?: PaymentTender[];
+  discount?: Discount;
+  waivedCharges?: string[];
+  orderId?: string;
+  firedItems?: KotItem[];
+  heldBy: string;
+  heldByName: string;
+  heldAt: string;
+}
+
+export type KotType = 'new' | 'cancel';
+
+export interface KotItem {
+  lineId?: string;
+  menuItemId: string;
+  name: string;
+  variantName?: string;
+  modifiers?: string[];
+  notes?: string;
+  quantity: number;
+}
+
+export interface Kot {
+  id: string;
+  kotNumber: string;
+  type: KotType;
+  orderId: string;
+  tableId?: string;
+  tableName?: string;
+  orderType?: OrderType;
+  items: KotItem[];
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+}
+
+// Buyer address for the e-invoice, entered when it is generated
+export interface EInvoiceBuyer {
+  legalName: string;
+  address: string;
+  location: string;
+  pincode: string;
+}
+
+export interface BillEInvoice {
+  irn: string;
+  ackNo: string;
+  ackDate: string;
+  // JWT signed by the IRP; printed as the e-invoice QR code
+  signedQrCode: string;
+  signedInvoice?: string;
+  buyer: EInvoiceBuyer;
+  generatedAt: string;
+}
+
+export interface EInvoiceSettings {
+  enabled: boolean;
+  // Seller details the e-invoice needs beyond the shop name and address
+  legalName?: string;
+  location: string;
+  pincode: string;
+  // Endpoint of the GSP proxy that signs requests to the IRP; blank uses the local stub
+  irpUrl?: string;
+}
+
+export type RoundOffRule = 'none' | 'nearest' | 'nearestHalf' | 'up' | 'down';
+
+export type NumberSeries = 'bill' | 'creditNote' | 'kot';
+
+export interface NumberSeriesConfig {
+  prefix: string;
+  padding: number;
+  // Restart from 1 every financial year (April to March)
+  resetYearly: boolean;
+  // Put in front of the number; taken from the terminal's settings
+  terminalCode?: string;
+}
+
+// Last number issued in a series for one counting period
+export interface NumberCounter {
+  id: string;
+  series: NumberSeries;
+  period: string;
+  value: number;
+}
+
+export type SyncDocument = 'bill' | 'creditNote';
+
+// A document waiting to be pushed to Google Sheets. Saving the document again
+// re-queues it, so the latest version is always the one sent.
+export interface OutboxEntry {
+  id: string;
+  document: SyncDocument;
+  documentId: string;
+  queuedAt: string;
+}
+
+export type ReplicatedStore = 'bills' | 'creditNotes' | 'menuItems' | 'modifierGroups' | 'users' | 'settings';
+
+// A local edit waiting to be pushed to the sync server; deletions are kept
+// here as tombstones until the server has them
+export interface ReplicationChange {
+  id: string;
+  store: ReplicatedStore;
+  recordId: string;
+  rev: RecordRev;
+  deleted?: boolean;
+  queuedAt: string;
+  // Pushes the server answered with an error; editing the record again resets them
+  attempts?: number;
+  lastError?: string;
+}
+
+export interface ReplicationState {
+  id: string;
+  terminalId: string;
+  // Highest version seen from any terminal
+  clock: number;
+  // Server sequence number pulled up to
+  cursor: number;
+  // Bill and credit note numbers pulled from another terminal that were
+  // already used here; two terminals share a terminal code
+  numberClashes?: string[];
 }
 
 export interface AppSettings {
@@ -57,19 +430,53 @@ export interface AppSettings {
   shopEmail?: string;
   cgstRate: number;
   sgstRate: number;
+  roundOff?: RoundOffRule;
+  charges?: ChargeConfig[];
+  einvoice?: EInvoiceSettings;
+  // Menu prices include GST, which is back-calculated instead of added
+  taxInclusive?: boolean;
   printerFormat: '58mm' | '80mm';
   theme: 'light' | 'dark';
   googleSheetsUrl?: string;
   autoSync: boolean;
+  // Multi-terminal sync server; blank keeps this terminal standalone
+  syncServerUrl?: string;
+  syncToken?: string;
   currency: string;
+  discountReasons?: string[];
+  // Kept per terminal, so each counter can number with its own prefix
+  numbering?: Partial<Record<NumberSeries, NumberSeriesConfig>>;
+  // Starts every document number this terminal issues; required once sync is
+  // set up, so two terminals never issue the same number
+  terminalCode?: string;
+  rev?: RecordRev;
 }
 
+// Totals of one day's bills and credit notes, kept up to date as they are
+// written so reports and the dashboard never read every bill. Void bills
+// count only towards voided; credit notes count on the day they were issued.
 export interface DailySummary {
-  date: string;
-  totalSales: number;
-  totalBills: number;
-  totalItems: number;
-  avgBillValue: number;
+  // Local date, yyyy-MM-dd
+  id: string;
+  bills: number;
+  voided: number;
+  items: number;
+  sales: number;
+  discounts: number;
+  taxable: number;
+  tax: number;
+  roundOff: number;
+  payments: Record<PaymentMethod, number>;
+  // Refunds are counted against the order type of the bill refunded
+  orderTypes: Partial<Record<OrderType, { bills: number; sales: number; refunds: number }>>;
+  discountReasons: Record<string, { count: number; amount: number }>;
+  charges: Record<string, { applied: number; waived: number; amount: number }>;
+  creditNotes: number;
+  refunds: number;
+  refundTaxable: number;
+  refundTax: number;
+  refundRoundOff: number;
+  refundPayments: Record<PaymentMethod, number>;
 }
 
 export interface CategorySales {
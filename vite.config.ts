@@ -1,15 +1,44 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
 import { componentTagger } from "lovable-tagger";
 
+// Files from public/ the app shell needs offline
+const PUBLIC_PRECACHE = ["/manifest.json", "/favicon.ico", "/placeholder.svg"];
+
+// Emits sw.js listing every built file to precache. The version is a hash of
+// the build, so any change to the app installs as an update.
+function serviceWorker(): Plugin {
+  return {
+    name: "restaurant-pos-service-worker",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const built = Object.keys(bundle).filter((fileName) => !fileName.endsWith(".map")).sort();
+      const hash = createHash("sha256");
+      for (const fileName of built) {
+        const file = bundle[fileName];
+        hash.update(fileName).update(file.type === "chunk" ? file.code : file.source);
+      }
+      const version = hash.digest("hex").slice(0, 12);
+      const urls = [...new Set(["/index.html", ...built.map((fileName) => `/${fileName}`), ...PUBLIC_PRECACHE])];
+      const source = readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf8")
+        .replace("__VERSION__", version)
+        .replace("__PRECACHE__", JSON.stringify(urls, null, 2));
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), serviceWorker()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),